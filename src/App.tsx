@@ -1,153 +1,59 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Toaster } from './components/ui/toaster';
 import { useToast } from './hooks/use-toast';
 import DocumentUpload from './components/upload/DocumentUpload';
 import AnalysisEngine from './components/analysis/AnalysisEngine';
 import CrossCheckReport from './components/report/CrossCheckReport';
-import { DocumentAnalysis } from './types/financial';
+import SessionHistory from './components/history/SessionHistory';
+import RunDiffReport from './components/history/RunDiffReport';
+import { AnalysisSession, AnalysisSettings, DocumentAnalysis, DocumentOptions, RunDiff } from './types/financial';
+import { DEFAULT_SETTINGS } from './lib/comparison';
+import { generateReportPdf, generateRunDiffPdf } from './lib/reportPdf';
+import { generateReportWorkbook } from './lib/reportXlsx';
+import { parseResults, serializeResults } from './lib/results';
+import { diffSessions } from './lib/runDiff';
+import { createSession, hashFile, saveSession, updateSession } from './lib/sessions';
 import './index.css';
 
-type AppState = 'upload' | 'analyzing' | 'report';
+type AppState = 'upload' | 'analyzing' | 'report' | 'diff';
 
-// Helper functions
-const generateComparisons = (analyses: DocumentAnalysis[]) => {
-  const comparisons: any[] = [];
-  const allFields = new Set<string>();
-  const allYears = new Set<string>();
-  
-  analyses.forEach(analysis => {
-    analysis.extractedFigures.forEach(figure => {
-      allFields.add(figure.label);
-      allYears.add(figure.year);
-    });
-  });
-
-  allFields.forEach(field => {
-    allYears.forEach(year => {
-      const values: { [documentName: string]: number | null } = {};
-      let category = 'Income Statement';
-      
-      analyses.forEach(analysis => {
-        const figure = analysis.extractedFigures.find(f => f.label === field && f.year === year);
-        values[analysis.fileName] = figure ? figure.value : null;
-        if (figure) {
-          category = figure.category;
-        }
-      });
-
-      const nonNullValues = Object.values(values).filter(v => v !== null);
-      if (nonNullValues.length >= 2) {
-        const uniqueValues = new Set(nonNullValues);
-        const consistent = uniqueValues.size === 1;
-        
-        comparisons.push({
-          year,
-          field,
-          values,
-          consistent,
-          category
-        });
-      }
-    });
-  });
-
-  return comparisons;
-};
-
-const generateReportContent = (analyses: DocumentAnalysis[]): string => {
-  const lines: string[] = [];
-  lines.push('DOCUMENT CROSS-CHECKER REPORT');
-  lines.push('='.repeat(50));
-  lines.push('');
-  lines.push(`Generated: ${new Date().toLocaleString()}`);
-  lines.push(`Documents Analyzed: ${analyses.length}`);
-  lines.push('');
-
-  // Executive Summary
-  lines.push('EXECUTIVE SUMMARY');
-  lines.push('-'.repeat(20));
-  
-  const allComparisons = generateComparisons(analyses);
-  const consistentCount = allComparisons.filter(c => c.consistent).length;
-  const discrepancyCount = allComparisons.length - consistentCount;
-  
-  lines.push(`Total Comparisons: ${allComparisons.length}`);
-  lines.push(`Consistent Values: ${consistentCount}`);
-  lines.push(`Discrepancies Found: ${discrepancyCount}`);
-  lines.push('');
-
-  if (discrepancyCount > 0) {
-    lines.push('KEY DISCREPANCIES:');
-    allComparisons
-      .filter(c => !c.consistent)
-      .slice(0, 10)
-      .forEach(c => {
-        const docValues = Object.entries(c.values)
-          .filter(([, value]) => value !== null)
-          .map(([doc, value]) => `${doc}: $${value?.toLocaleString()}`)
-          .join(', ');
-        lines.push(`• ${c.field} for ${c.year}: ${docValues}`);
-      });
-    lines.push('');
-  }
-
-  // Detailed Results
-  lines.push('DETAILED COMPARISON RESULTS');
-  lines.push('-'.repeat(30));
-  lines.push('');
-
-  const categories = ['Income Statement', 'Balance Sheet', 'Cash Flow Statement'];
-  categories.forEach(category => {
-    const categoryComparisons = allComparisons.filter(c => c.category === category);
-    if (categoryComparisons.length > 0) {
-      lines.push(`${category.toUpperCase()}`);
-      lines.push('');
-      categoryComparisons.forEach(c => {
-        lines.push(`${c.year} - ${c.field}:`);
-        Object.entries(c.values).forEach(([doc, value]) => {
-          lines.push(`  ${doc}: ${value !== null ? `$${value.toLocaleString()}` : 'N/A'}`);
-        });
-        lines.push(`  Consistent: ${c.consistent ? 'Yes' : 'No'}`);
-        lines.push('');
-      });
-    }
-  });
-
-  return lines.join('\n');
-};
-
-const generateCSVContent = (analyses: DocumentAnalysis[]): string => {
-  const lines: string[] = [];
-  
-  // Header
-  const documentNames = analyses.map(a => a.fileName);
-  lines.push(['Year', 'Field', 'Category', ...documentNames, 'Consistent'].join(','));
-  
-  // Data rows
-  const comparisons = generateComparisons(analyses);
-  comparisons.forEach(c => {
-    const row = [
-      c.year,
-      `"${c.field}"`,
-      `"${c.category}"`,
-      ...documentNames.map(name => c.values[name] !== null ? c.values[name]!.toString() : ''),
-      c.consistent ? 'Yes' : 'No'
-    ];
-    lines.push(row.join(','));
-  });
-  
-  return lines.join('\n');
-};
+// Settings edits are written to the saved session once they pause for this long
+const SETTINGS_SAVE_DELAY = 800;
 
 function App() {
   const [state, setState] = useState<AppState>('upload');
   const [files, setFiles] = useState<File[]>([]);
+  const [documentOptions, setDocumentOptions] = useState<{ [fileName: string]: DocumentOptions }>({});
   const [analyses, setAnalyses] = useState<DocumentAnalysis[]>([]);
+  const [settings, setSettings] = useState<AnalysisSettings>(DEFAULT_SETTINGS);
+  const [dealName, setDealName] = useState('');
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [runDiff, setRunDiff] = useState<RunDiff | null>(null);
+  // Settings edited in the report that the saved session does not have yet
+  const unsavedSettings = useRef<AnalysisSettings | null>(null);
   const { toast } = useToast();
 
+  // Every run is kept in the browser's history; failing to save must not block the report
+  const storeSession = useCallback(async (results: DocumentAnalysis[], resultSettings: AnalysisSettings, sourceFiles: File[]) => {
+    try {
+      const hashed = await Promise.all(sourceFiles.map(hashFile));
+      const session = await saveSession(createSession(results, resultSettings, hashed, dealName));
+      setSessionId(session.id);
+    } catch (error) {
+      toast({
+        title: "Session Not Saved",
+        description: error instanceof Error ? error.message : 'Unable to save this analysis',
+        variant: "destructive",
+      });
+    }
+  }, [dealName, toast]);
+
   const handleFilesChange = useCallback((newFiles: File[]) => {
     console.log('Files changed:', newFiles.map(f => ({ name: f.name, size: f.size, type: f.type })));
     setFiles(newFiles);
+    setDocumentOptions(prev => Object.fromEntries(
+      Object.entries(prev).filter(([fileName]) => newFiles.some(f => f.name === fileName))
+    ));
     
     // Validate files and show warnings if needed
     const invalidFiles = newFiles.filter(file => {
@@ -164,6 +70,19 @@ function App() {
     }
   }, [toast]);
 
+  // Only one document can be the source of truth; choosing another makes the previous one derived
+  const handleDocumentOptionsChange = useCallback((fileName: string, options: DocumentOptions) => {
+    setDocumentOptions(prev => {
+      const demoted = options.role === 'source_of_truth'
+        ? Object.fromEntries(Object.entries(prev).map(([name, other]) => [
+          name,
+          other.role === 'source_of_truth' ? { ...other, role: 'derived' as const } : other
+        ]))
+        : prev;
+      return { ...demoted, [fileName]: options };
+    });
+  }, []);
+
   const handleStartAnalysis = useCallback(() => {
     if (files.length < 2) {
       toast({
@@ -180,6 +99,7 @@ function App() {
     console.log('Analysis complete. Results:', results);
     setAnalyses(results);
     setState('report');
+    storeSession(results, settings, files);
     
     const successCount = results.filter(r => r.extractionStatus === 'success').length;
     const partialCount = results.filter(r => r.extractionStatus === 'partial').length;
@@ -204,51 +124,164 @@ function App() {
         description: `Successfully analyzed ${successCount} of ${totalCount} documents with financial data extracted.`,
       });
     }
+  }, [files, settings, storeSession, toast]);
+
+  // Settings edited in the report are saved with the session, which rebuilds its comparisons
+  const saveSettings = useCallback((id: string, newSettings: AnalysisSettings) => {
+    unsavedSettings.current = null;
+    updateSession(id, { settings: newSettings }).catch(error => {
+      toast({
+        title: "Session Not Saved",
+        description: error instanceof Error ? error.message : 'Unable to save settings',
+        variant: "destructive",
+      });
+    });
   }, [toast]);
 
+  const handleSettingsChange = useCallback((newSettings: AnalysisSettings) => {
+    setSettings(newSettings);
+    unsavedSettings.current = newSettings;
+  }, []);
+
+  // Typing a tolerance saves once, after the last keystroke; edits made while the session was still
+  // being stored are saved as soon as it has an id
+  useEffect(() => {
+    if (!sessionId || !unsavedSettings.current) return;
+    const timer = setTimeout(() => {
+      if (unsavedSettings.current) saveSettings(sessionId, unsavedSettings.current);
+    }, SETTINGS_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [settings, sessionId, saveSettings]);
+
+  const handleOpenSession = useCallback((session: AnalysisSession) => {
+    setFiles([]);
+    setDocumentOptions({});
+    setAnalyses(session.analyses);
+    setSettings(session.settings);
+    setDealName(session.dealName);
+    setSessionId(session.id);
+    setState('report');
+  }, []);
+
+  const handleCompareSessions = useCallback((first: AnalysisSession, second: AnalysisSession) => {
+    setRunDiff(diffSessions(first, second));
+    setState('diff');
+  }, []);
+
+  const handleExportRunDiff = useCallback(() => {
+    if (!runDiff) return;
+    try {
+      generateRunDiffPdf(runDiff).save(`run-comparison-${new Date().toISOString().split('T')[0]}.pdf`);
+      toast({
+        title: "Comparison Exported",
+        description: "Run comparison PDF has been downloaded successfully.",
+      });
+    } catch (error) {
+      console.error('Run comparison export failed:', error);
+      toast({
+        title: "Export Failed",
+        description: "The run comparison could not be generated.",
+        variant: "destructive",
+      });
+    }
+  }, [runDiff, toast]);
+
   const handleExportPDF = useCallback(() => {
-    // Generate PDF report content
-    const reportContent = generateReportContent(analyses);
-    const blob = new Blob([reportContent], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `cross-check-report-${new Date().toISOString().split('T')[0]}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    toast({
-      title: "Report Exported",
-      description: "PDF report has been downloaded successfully.",
-    });
-  }, [analyses, toast]);
+    try {
+      generateReportPdf(analyses, settings).save(`cross-check-report-${new Date().toISOString().split('T')[0]}.pdf`);
+      toast({
+        title: "Report Exported",
+        description: "PDF report has been downloaded successfully.",
+      });
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      toast({
+        title: "Export Failed",
+        description: "The PDF report could not be generated.",
+        variant: "destructive",
+      });
+    }
+  }, [analyses, settings, toast]);
+
+  const handleExportExcel = useCallback(async () => {
+    try {
+      const buffer = await generateReportWorkbook(analyses, settings).xlsx.writeBuffer();
+      const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `cross-check-data-${new Date().toISOString().split('T')[0]}.xlsx`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
 
-  const handleExportExcel = useCallback(() => {
-    // Generate CSV content for Excel compatibility
-    const csvContent = generateCSVContent(analyses);
-    const blob = new Blob([csvContent], { type: 'text/csv' });
+      toast({
+        title: "Data Exported",
+        description: "Excel workbook has been downloaded successfully.",
+      });
+    } catch (error) {
+      console.error('Excel export failed:', error);
+      toast({
+        title: "Export Failed",
+        description: "The Excel workbook could not be generated.",
+        variant: "destructive",
+      });
+    }
+  }, [analyses, settings, toast]);
+
+  const handleExportJSON = useCallback(() => {
+    const blob = new Blob([serializeResults(analyses, settings)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `cross-check-data-${new Date().toISOString().split('T')[0]}.csv`;
+    a.download = `cross-check-results-${new Date().toISOString().split('T')[0]}.json`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-    
+
     toast({
-      title: "Data Exported",
-      description: "Excel-compatible CSV file has been downloaded successfully.",
+      title: "Results Exported",
+      description: "Analysis results have been saved as JSON.",
     });
-  }, [analyses, toast]);
+  }, [analyses, settings, toast]);
 
+  // Reopens a saved report from its extracted figures; the original files are not needed
+  const handleOpenResults = useCallback(async (file: File) => {
+    try {
+      const results = parseResults(await file.text());
+      setFiles([]);
+      setDocumentOptions({});
+      setAnalyses(results.analyses);
+      setSettings(results.settings);
+      setState('report');
+      storeSession(results.analyses, results.settings, []);
+      toast({
+        title: "Results Opened",
+        description: `${results.analyses.length} documents loaded from ${file.name}${results.exportedAt ? `, exported ${new Date(results.exportedAt).toLocaleString()}` : ''}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid Results File",
+        description: error instanceof Error ? error.message : 'Unable to read results',
+        variant: "destructive",
+      });
+    }
+  }, [storeSession, toast]);
+
+  // Clears the run only: pending edits are saved to the session being left, and the taxonomy, rules,
+  // FX rates, materiality and tolerance carry over to the next analysis
   const handleStartOver = useCallback(() => {
+    if (sessionId && unsavedSettings.current) saveSettings(sessionId, unsavedSettings.current);
+    unsavedSettings.current = null;
     setFiles([]);
+    setDocumentOptions({});
     setAnalyses([]);
+    setDealName('');
+    setSessionId(null);
     setState('upload');
-  }, []);
+  }, [sessionId, saveSettings]);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -257,14 +290,37 @@ function App() {
           <DocumentUpload
             files={files}
             onFilesChange={handleFilesChange}
+            documentOptions={documentOptions}
+            onDocumentOptionsChange={handleDocumentOptionsChange}
+            taxonomy={settings.taxonomy}
+            onTaxonomyChange={taxonomy => setSettings(prev => ({ ...prev, taxonomy }))}
             onAnalyze={handleStartAnalysis}
+            onOpenResults={handleOpenResults}
+            dealName={dealName}
+            onDealNameChange={setDealName}
             isAnalyzing={false}
           />
         )}
 
+        {state === 'upload' && (
+          <div className="mt-6">
+            <SessionHistory onOpen={handleOpenSession} onCompare={handleCompareSessions} />
+          </div>
+        )}
+
+        {state === 'diff' && runDiff && (
+          <RunDiffReport
+            diff={runDiff}
+            onExport={handleExportRunDiff}
+            onBack={() => setState('upload')}
+          />
+        )}
+
         {state === 'analyzing' && (
           <AnalysisEngine
             files={files}
+            documentOptions={documentOptions}
+            taxonomy={settings.taxonomy}
             onAnalysisComplete={handleAnalysisComplete}
           />
         )}
@@ -272,8 +328,12 @@ function App() {
         {state === 'report' && (
           <CrossCheckReport
             analyses={analyses}
+            files={files}
+            settings={settings}
+            onSettingsChange={handleSettingsChange}
             onExportPDF={handleExportPDF}
             onExportExcel={handleExportExcel}
+            onExportJSON={handleExportJSON}
             onStartOver={handleStartOver}
           />
         )}
@@ -1,383 +0,0 @@
-import React, { useState, useEffect, useCallback } from 'react'
-import { FileText, CheckCircle, AlertCircle, Loader2 } from 'lucide-react'
-import { Card } from '../ui/card'
-import { Button } from '../ui/button'
-import { Progress } from '../ui/progress'
-import { blink } from '../../blink/client'
-import type { AnalysisReport, ExtractedFigure } from '../../types/financial'
-
-interface AnalysisDashboardProps {
-  files: File[]
-  onAnalysisComplete: (report: AnalysisReport) => void
-  onBack: () => void
-}
-
-export default function AnalysisDashboard({ files, onAnalysisComplete, onBack }: AnalysisDashboardProps) {
-  const [currentStep, setCurrentStep] = useState(0)
-  const [progress, setProgress] = useState(0)
-  const [extractedData, setExtractedData] = useState<{ [fileName: string]: ExtractedFigure[] }>({})
-  const [isAnalyzing, setIsAnalyzing] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-
-  const steps = [
-    'Uploading documents to secure storage...',
-    'Extracting text content from documents...',
-    'Identifying financial figures and categories...',
-    'Cross-referencing data between documents...',
-    'Generating consistency report...'
-  ]
-
-  const extractFinancialFigures = useCallback((text: string, fileName: string): ExtractedFigure[] => {
-    const figures: ExtractedFigure[] = []
-    
-    // Financial figure patterns to look for in extracted text
-    const financialPatterns = [
-      { category: 'Revenue', patterns: [/revenue[:\s]+\$?([\d,]+)/i, /sales[:\s]+\$?([\d,]+)/i, /total revenue[:\s]+\$?([\d,]+)/i] },
-      { category: 'EBITDA', patterns: [/ebitda[:\s]+\$?([\d,]+)/i, /earnings before[:\s\w]*\$?([\d,]+)/i] },
-      { category: 'Net Income', patterns: [/net income[:\s]+\$?([\d,]+)/i, /net profit[:\s]+\$?([\d,]+)/i, /profit[:\s]+\$?([\d,]+)/i] },
-      { category: 'Total Assets', patterns: [/total assets[:\s]+\$?([\d,]+)/i, /assets[:\s]+\$?([\d,]+)/i] },
-      { category: 'Total Liabilities', patterns: [/total liabilities[:\s]+\$?([\d,]+)/i, /liabilities[:\s]+\$?([\d,]+)/i] },
-      { category: 'Cash Flow', patterns: [/cash flow[:\s]+\$?([\d,]+)/i, /operating cash flow[:\s]+\$?([\d,]+)/i] }
-    ]
-    
-    // Extract years mentioned in the document
-    const yearMatches = text.match(/20\d{2}/g) || []
-    const years = [...new Set(yearMatches)].sort().reverse()
-    
-    financialPatterns.forEach(({ category, patterns }) => {
-      patterns.forEach(pattern => {
-        const matches = text.match(pattern)
-        if (matches && matches[1]) {
-          const value = parseFloat(matches[1].replace(/,/g, ''))
-          if (!isNaN(value)) {
-            // Try to find the year context for this figure
-            const matchIndex = text.indexOf(matches[0])
-            const contextBefore = text.substring(Math.max(0, matchIndex - 100), matchIndex)
-            const contextAfter = text.substring(matchIndex, Math.min(text.length, matchIndex + 100))
-            const context = contextBefore + matches[0] + contextAfter
-            
-            const yearInContext = context.match(/20\d{2}/)
-            const year = yearInContext ? yearInContext[0] : (years[0] || '2024')
-            
-            figures.push({
-              category,
-              value,
-              year,
-              documentName: fileName,
-              location: `Found in document text`,
-              confidence: 0.9
-            })
-          }
-        }
-      })
-    })
-    
-    return figures
-  }, [])
-
-  const analyzeDocuments = useCallback(async () => {
-    try {
-      setError(null)
-      const allExtractedData: { [fileName: string]: ExtractedFigure[] } = {}
-      
-      console.log(`Starting analysis of ${files.length} documents:`, files.map(f => f.name))
-      
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i]
-        console.log(`Processing document ${i + 1}/${files.length}: ${file.name}`)
-        
-        setCurrentStep(0)
-        setProgress((i / files.length) * 80)
-        
-        // Step 1: Upload to storage
-        await new Promise(resolve => setTimeout(resolve, 1000))
-        const { publicUrl } = await blink.storage.upload(file, `analysis/${file.name}`, { upsert: true })
-        console.log(`Uploaded ${file.name} to:`, publicUrl)
-        
-        setCurrentStep(1)
-        setProgress((i / files.length) * 80 + 10)
-        
-        // Step 2: Extract text content
-        await new Promise(resolve => setTimeout(resolve, 1500))
-        let extractedText = ''
-        
-        try {
-          // First try extracting from URL
-          extractedText = await blink.data.extractFromUrl(publicUrl)
-          console.log(`Extracted ${extractedText.length} characters from ${file.name}`)
-        } catch (extractError) {
-          console.warn(`URL extraction failed for ${file.name}:`, extractError)
-          
-          // If URL extraction fails, try extracting directly from the file blob
-          // This is especially useful for Excel files that might be detected as ZIP
-          try {
-            console.log(`Attempting blob extraction for ${file.name}...`)
-            extractedText = await blink.data.extractFromBlob(file)
-            console.log(`Successfully extracted ${extractedText.length} characters from blob ${file.name}`)
-          } catch (blobError) {
-            console.warn(`Blob extraction also failed for ${file.name}:`, blobError)
-            
-            // For demo purposes, use sample financial data if both extraction methods fail
-            extractedText = `Sample Financial Data for ${file.name}:
-              Revenue: ${1200000 + (i * 20000)} (2024)
-              EBITDA: ${300000 + (i * 5000)} (2024)
-              Net Income: ${150000 + (i * 3000)} (2024)
-              Total Assets: ${2500000 + (i * 50000)} (2024)
-              Total Liabilities: ${1000000 + (i * 10000)} (2024)
-              Cash Flow: ${200000 + (i * 8000)} (2024)`
-            console.log(`Using sample data for ${file.name} due to extraction failures`)
-          }
-        }
-        
-        setCurrentStep(2)
-        setProgress((i / files.length) * 80 + 20)
-        
-        // Step 3: Extract financial figures
-        await new Promise(resolve => setTimeout(resolve, 1000))
-        const figures = extractFinancialFigures(extractedText, file.name)
-        allExtractedData[file.name] = figures
-        console.log(`Extracted ${figures.length} figures from ${file.name}:`, figures)
-        
-        setCurrentStep(3)
-        setProgress((i / files.length) * 80 + 30)
-      }
-      
-      // Step 4: Cross-reference data
-      setCurrentStep(3)
-      setProgress(80)
-      await new Promise(resolve => setTimeout(resolve, 1500))
-      
-      // Step 5: Generate report
-      setCurrentStep(4)
-      setProgress(95)
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      setExtractedData(allExtractedData)
-      
-      // Check if we found any financial figures
-      const totalFigures = Object.values(allExtractedData).reduce((sum, figures) => sum + figures.length, 0)
-      console.log(`Total figures extracted across all documents: ${totalFigures}`)
-      console.log('Extracted data by document:', allExtractedData)
-      
-      if (totalFigures === 0) {
-        setError(`No financial figures were found in the uploaded documents. Please ensure your documents contain financial data such as Revenue, EBITDA, Net Income, Assets, Liabilities, or Cash Flow figures.
-        
-        Documents processed: ${files.map(f => f.name).join(', ')}`)
-        setIsAnalyzing(false)
-        return
-      }
-      
-      // Generate analysis report
-      const report: AnalysisReport = {
-        id: `analysis_${Date.now()}`,
-        documentNames: files.map(f => f.name),
-        extractedFigures: allExtractedData,
-        discrepancies: [],
-        matches: [],
-        summary: {
-          totalDocuments: files.length,
-          totalFiguresFound: totalFigures,
-          discrepancyCount: 0,
-          matchCount: 0,
-          consistencyScore: 0
-        },
-        createdAt: new Date().toISOString()
-      }
-      
-      // Perform cross-document comparison
-      const allCategories = new Set<string>()
-      const allYears = new Set<string>()
-      
-      Object.values(allExtractedData).forEach(figures => {
-        figures.forEach(figure => {
-          allCategories.add(figure.category)
-          allYears.add(figure.year)
-        })
-      })
-      
-      // Compare figures across documents
-      console.log('Starting cross-document comparison...')
-      console.log('Categories found:', Array.from(allCategories))
-      console.log('Years found:', Array.from(allYears))
-      
-      allCategories.forEach(category => {
-        allYears.forEach(year => {
-          const figuresForCategoryYear = Object.entries(allExtractedData)
-            .map(([docName, figures]) => ({
-              docName,
-              figure: figures.find(f => f.category === category && f.year === year)
-            }))
-            .filter(item => item.figure)
-          
-          console.log(`Comparing ${category} (${year}):`, figuresForCategoryYear)
-          
-          if (figuresForCategoryYear.length > 1) {
-            // Check if all values match
-            const values = figuresForCategoryYear.map(item => item.figure!.value)
-            const uniqueValues = [...new Set(values)]
-            
-            console.log(`Values for ${category} (${year}):`, values, 'Unique:', uniqueValues)
-            
-            if (uniqueValues.length === 1) {
-              // All values match
-              report.matches.push({
-                category,
-                year,
-                value: uniqueValues[0],
-                documents: figuresForCategoryYear.map(item => item.docName),
-                status: 'match'
-              })
-              console.log(`✅ Match found for ${category} (${year}): ${uniqueValues[0]}`)
-            } else {
-              // Values don't match - discrepancy found
-              const variance = Math.max(...values) - Math.min(...values)
-              report.discrepancies.push({
-                category,
-                year,
-                values: figuresForCategoryYear.map(item => ({
-                  documentName: item.docName,
-                  value: item.figure!.value,
-                  location: item.figure!.location
-                })),
-                status: 'discrepancy',
-                variance,
-                suggestion: `${category} (${year}) values differ across documents. Range: ${Math.min(...values).toLocaleString()} - ${Math.max(...values).toLocaleString()} (variance: ${variance.toLocaleString()}). Please verify which figure is correct.`
-              })
-              console.log(`❌ Discrepancy found for ${category} (${year}):`, values)
-            }
-          } else if (figuresForCategoryYear.length === 1) {
-            // Figure found in only one document
-            console.log(`⚠️ Single source for ${category} (${year}): ${figuresForCategoryYear[0].docName}`)
-          }
-        })
-      })
-      
-      // Update summary
-      report.summary.discrepancyCount = report.discrepancies.length
-      report.summary.matchCount = report.matches.length
-      report.summary.consistencyScore = report.matches.length / (report.matches.length + report.discrepancies.length) * 100
-      
-      setProgress(100)
-      await new Promise(resolve => setTimeout(resolve, 500))
-      
-      setIsAnalyzing(false)
-      onAnalysisComplete(report)
-      
-    } catch (error) {
-      console.error('Analysis failed:', error)
-      setError('Analysis failed. Please try again or contact support if the issue persists.')
-      setIsAnalyzing(false)
-    }
-  }, [extractFinancialFigures, files, onAnalysisComplete])
-
-  useEffect(() => {
-    analyzeDocuments()
-  }, [analyzeDocuments])
-
-  if (error) {
-    return (
-      <div className="space-y-6">
-        <Card className="p-6 border-red-200 bg-red-50">
-          <div className="flex items-start space-x-3">
-            <AlertCircle className="h-6 w-6 text-red-600 mt-0.5" />
-            <div>
-              <h3 className="font-semibold text-red-800 mb-2">Analysis Failed</h3>
-              <p className="text-red-700 mb-4">{error}</p>
-              <div className="space-y-2 text-sm text-red-600">
-                <p><strong>What we look for:</strong></p>
-                <ul className="list-disc list-inside space-y-1 ml-4">
-                  <li>Revenue, Sales figures</li>
-                  <li>EBITDA, Earnings data</li>
-                  <li>Net Income, Profit figures</li>
-                  <li>Total Assets, Liabilities</li>
-                  <li>Cash Flow statements</li>
-                </ul>
-              </div>
-              <div className="flex space-x-3 mt-4">
-                <Button onClick={onBack} variant="outline">
-                  Upload Different Documents
-                </Button>
-                <Button onClick={() => {
-                  setError(null)
-                  setIsAnalyzing(true)
-                  setCurrentStep(0)
-                  setProgress(0)
-                  analyzeDocuments()
-                }}>
-                  Try Again
-                </Button>
-              </div>
-            </div>
-          </div>
-        </Card>
-      </div>
-    )
-  }
-
-  return (
-    <div className="space-y-6">
-      <div className="text-center">
-        <h2 className="text-2xl font-semibold text-gray-900 mb-2">
-          Analyzing Documents
-        </h2>
-        <p className="text-gray-600">
-          Processing {files.length} documents for financial consistency
-        </p>
-      </div>
-
-      <Card className="p-6">
-        <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <span className="text-sm font-medium text-gray-700">
-              Analysis Progress
-            </span>
-            <span className="text-sm text-gray-500">{progress}%</span>
-          </div>
-          <Progress value={progress} className="h-2" />
-        </div>
-      </Card>
-
-      <Card className="p-6">
-        <div className="space-y-4">
-          <h3 className="font-semibold text-gray-900 mb-4">Processing Steps</h3>
-          {steps.map((step, index) => (
-            <div key={index} className="flex items-center space-x-3">
-              {index < currentStep ? (
-                <CheckCircle className="h-5 w-5 text-green-600" />
-              ) : index === currentStep ? (
-                <Loader2 className="h-5 w-5 text-blue-600 animate-spin" />
-              ) : (
-                <div className="h-5 w-5 rounded-full border-2 border-gray-300" />
-              )}
-              <span className={`text-sm ${
-                index <= currentStep ? 'text-gray-900' : 'text-gray-500'
-              }`}>
-                {step}
-              </span>
-            </div>
-          ))}
-        </div>
-      </Card>
-
-      <Card className="p-6">
-        <h3 className="font-semibold text-gray-900 mb-4">Documents Being Processed</h3>
-        <div className="space-y-3">
-          {files.map((file, index) => (
-            <div key={index} className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
-              <FileText className="h-5 w-5 text-blue-600" />
-              <div className="flex-1">
-                <p className="font-medium text-gray-900">{file.name}</p>
-                <p className="text-sm text-gray-500">
-                  {(file.size / 1024 / 1024).toFixed(2)} MB
-                </p>
-              </div>
-              {progress > (index / files.length) * 80 && (
-                <CheckCircle className="h-5 w-5 text-green-600" />
-              )}
-            </div>
-          ))}
-        </div>
-      </Card>
-    </div>
-  )
-}
\ No newline at end of file
@@ -2,112 +2,24 @@ import React, { useState, useCallback } from 'react';
 import { FileText, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
 import { Card } from '../ui/card';
 import { Progress } from '../ui/progress';
-import { ExtractedFigure, DocumentAnalysis } from '../../types/financial';
-import { blink } from '../../blink/client';
+import { DocumentAnalysis, DocumentOptions, ExtractedFigure, FieldTaxonomy, NumberLocale } from '../../types/financial';
+import { NUMBER_LOCALE_LABELS, detectNumberLocale } from '../../lib/numbers';
+import { docxText, extractFiguresFromDocx, parseDocx } from '../../lib/parsers/docx';
+import { extractFiguresFromPdf, parsePdf, pdfText } from '../../lib/parsers/pdf';
+import { extractFiguresFromSpreadsheet, parseXlsx } from '../../lib/parsers/xlsx';
 
 interface AnalysisEngineProps {
   files: File[];
+  documentOptions: { [fileName: string]: DocumentOptions };
+  taxonomy: FieldTaxonomy;
   onAnalysisComplete: (analyses: DocumentAnalysis[]) => void;
 }
 
-export default function AnalysisEngine({ files, onAnalysisComplete }: AnalysisEngineProps) {
+export default function AnalysisEngine({ files, documentOptions, taxonomy, onAnalysisComplete }: AnalysisEngineProps) {
   const [currentStep, setCurrentStep] = useState(0);
   const [progress, setProgress] = useState(0);
   const [analyses, setAnalyses] = useState<DocumentAnalysis[]>([]);
 
-  const extractFinancialFigures = useCallback((text: string, fileName: string): ExtractedFigure[] => {
-    const figures: ExtractedFigure[] = [];
-    
-    // Financial patterns with more comprehensive matching
-    const patterns = [
-      // Revenue patterns
-      { category: 'Income Statement', field: 'Revenue', patterns: [/revenue[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi, /sales[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi, /total revenue[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi] },
-      { category: 'Income Statement', field: 'EBITDA', patterns: [/ebitda[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi, /earnings before[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi] },
-      { category: 'Income Statement', field: 'Net Income', patterns: [/net income[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi, /net profit[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi, /profit after tax[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi] },
-      
-      // Balance Sheet patterns
-      { category: 'Balance Sheet', field: 'Total Assets', patterns: [/total assets[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi, /assets[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi] },
-      { category: 'Balance Sheet', field: 'Total Liabilities', patterns: [/total liabilities[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi, /liabilities[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi] },
-      { category: 'Balance Sheet', field: 'Equity', patterns: [/equity[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi, /shareholders.? equity[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi, /stockholders.? equity[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi] },
-      
-      // Cash Flow patterns
-      { category: 'Cash Flow Statement', field: 'Operating Cash Flow', patterns: [/operating cash flow[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi, /cash from operations[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi] },
-      { category: 'Cash Flow Statement', field: 'Investing Cash Flow', patterns: [/investing cash flow[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi, /cash from investing[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi] },
-      { category: 'Cash Flow Statement', field: 'Financing Cash Flow', patterns: [/financing cash flow[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi, /cash from financing[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi] },
-      { category: 'Cash Flow Statement', field: 'Net Change in Cash', patterns: [/net change in cash[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi, /net cash flow[:\s]+\$?([\d,]+(?:\.\d{2})?)/gi] }
-    ];
-
-    // Year patterns
-    const yearPatterns = [/20\d{2}/g];
-    const foundYears = new Set<string>();
-    
-    yearPatterns.forEach(pattern => {
-      const matches = text.match(pattern);
-      if (matches) {
-        matches.forEach(year => foundYears.add(year));
-      }
-    });
-
-    // If no years found, assume current and previous year
-    if (foundYears.size === 0) {
-      const currentYear = new Date().getFullYear();
-      foundYears.add(currentYear.toString());
-      foundYears.add((currentYear - 1).toString());
-    }
-
-    // Extract figures for each pattern and year combination
-    patterns.forEach(({ category, field, patterns: fieldPatterns }) => {
-      fieldPatterns.forEach(pattern => {
-        let match;
-        while ((match = pattern.exec(text)) !== null) {
-          const valueStr = match[1].replace(/,/g, '');
-          const value = parseFloat(valueStr);
-          
-          if (!isNaN(value) && value > 0) {
-            // Try to find the closest year to this match
-            const matchIndex = match.index;
-            let closestYear = Array.from(foundYears)[0]; // Default to first year found
-            let closestDistance = Infinity;
-            
-            foundYears.forEach(year => {
-              const yearIndex = text.indexOf(year, Math.max(0, matchIndex - 200));
-              if (yearIndex !== -1) {
-                const distance = Math.abs(yearIndex - matchIndex);
-                if (distance < closestDistance && distance < 300) { // Within 300 characters
-                  closestDistance = distance;
-                  closestYear = year;
-                }
-              }
-            });
-
-            // Determine location based on file type
-            let location = 'Document content';
-            const extension = fileName.toLowerCase().split('.').pop();
-            if (extension === 'pdf') {
-              location = `PDF page ${Math.floor(matchIndex / 2000) + 1}`;
-            } else if (extension === 'xlsx') {
-              location = `Excel worksheet`;
-            } else if (extension === 'docx') {
-              location = `Word document`;
-            }
-
-            figures.push({
-              category,
-              year: closestYear,
-              value,
-              label: field,
-              documentName: fileName,
-              location,
-              confidence: 0.85 // Base confidence score
-            });
-          }
-        }
-      });
-    });
-
-    return figures;
-  }, []);
-
   const analyzeDocument = useCallback(async (file: File, index: number): Promise<DocumentAnalysis> => {
     setCurrentStep(index + 1);
     setProgress(((index + 1) / files.length) * 100);
@@ -141,97 +53,35 @@ export default function AnalysisEngine({ files, onAnalysisComplete }: AnalysisEn
         console.warn(`File type mismatch for ${file.name}: expected ${expectedType}, got ${file.type}`);
       }
 
-      // Extract text content - try blob method first for Excel files, URL method for others
-      let extractedText = '';
-      const isExcelFile = extension === 'xlsx' || extension === 'xls';
-      
-      if (isExcelFile) {
-        // For Excel files, try blob extraction first to avoid ZIP format detection issues
-        try {
-          console.log(`Attempting direct blob extraction for Excel file ${file.name}...`);
-          
-          // Create a fresh file blob to ensure proper format
-          const fileBlob = new File([file], file.name, { 
-            type: file.type || 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' 
-          });
-          
-          extractedText = await blink.data.extractFromBlob(fileBlob);
-          console.log(`Blob extraction successful for ${file.name}. Text length: ${extractedText.length}`);
-          
-        } catch (blobError) {
-          console.log(`Blob extraction failed for ${file.name}, trying URL method:`, blobError);
-          try {
-            // Fallback to URL method with proper file type
-            console.log(`Attempting storage upload and URL extraction for ${file.name}...`);
-            
-            const uploadPath = `analysis/${Date.now()}-${encodeURIComponent(file.name)}`;
-            const { publicUrl } = await blink.storage.upload(file, uploadPath, { 
-              upsert: true 
-            });
-            console.log(`Successfully uploaded ${file.name} to:`, publicUrl);
-            
-            // Wait longer for Excel files to be processed
-            await new Promise(resolve => setTimeout(resolve, 3000));
-            extractedText = await blink.data.extractFromUrl(publicUrl);
-            console.log(`URL extraction successful for ${file.name}. Text length: ${extractedText.length}`);
-            
-          } catch (urlError) {
-            console.error(`Both extraction methods failed for ${file.name}:`, { blobError, urlError });
-            throw new Error(`Unable to extract content from ${file.name}. Excel files may require special handling. Please ensure the file is not password-protected and contains readable data.`);
-          }
-        }
-      } else {
-        // For PDF and Word files, try URL method first
-        try {
-          console.log(`Attempting storage upload and URL extraction for ${file.name}...`);
-          
-          const uploadPath = `analysis/${Date.now()}-${encodeURIComponent(file.name)}`;
-          const { publicUrl } = await blink.storage.upload(file, uploadPath, { 
-            upsert: true 
-          });
-          console.log(`Successfully uploaded ${file.name} to:`, publicUrl);
-          
-          // Wait for file to be available
-          await new Promise(resolve => setTimeout(resolve, 2000));
-          extractedText = await blink.data.extractFromUrl(publicUrl);
-          console.log(`URL extraction successful for ${file.name}. Text length: ${extractedText.length}`);
-          
-        } catch (urlError) {
-          console.log(`URL extraction failed for ${file.name}, trying blob method:`, urlError);
-          try {
-            // Fallback to blob extraction
-            console.log(`Attempting direct blob extraction for ${file.name}...`);
-            
-            // Create a fresh file blob with proper type
-            const fileBlob = new File([file], file.name, { 
-              type: file.type || (extension === 'pdf' ? 'application/pdf' : 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')
-            });
-            
-            extractedText = await blink.data.extractFromBlob(fileBlob);
-            console.log(`Blob extraction successful for ${file.name}. Text length: ${extractedText.length}`);
-            
-          } catch (blobError) {
-            console.error(`Both extraction methods failed for ${file.name}:`, { urlError, blobError });
-            throw new Error(`Unable to extract content from ${file.name}. The file may be corrupted, password-protected, or contain only images. Please ensure the file contains readable text content.`);
-          }
+      // Files are read locally so each figure keeps its cell, table, paragraph or page position;
+      // nothing is uploaded, so a file the parsers cannot read is reported rather than sent elsewhere
+      const manualLocale = documentOptions[file.name]?.numberLocale;
+      let figures: ExtractedFigure[];
+      let numberLocale: NumberLocale | undefined;
+      try {
+        if (extension === 'xlsx') {
+          figures = extractFiguresFromSpreadsheet(await parseXlsx(await file.arrayBuffer()), file.name, { taxonomy });
+        } else if (extension === 'pdf') {
+          const pdf = await parsePdf(await file.arrayBuffer());
+          numberLocale = manualLocale ?? detectNumberLocale(pdfText(pdf));
+          figures = extractFiguresFromPdf(pdf, file.name, { numberLocale, taxonomy });
+        } else {
+          const wordDocument = await parseDocx(await file.arrayBuffer());
+          numberLocale = manualLocale ?? detectNumberLocale(docxText(wordDocument));
+          figures = extractFiguresFromDocx(wordDocument, file.name, { numberLocale, taxonomy });
         }
+      } catch (parseError) {
+        console.error(`Local parsing failed for ${file.name}:`, parseError);
+        throw new Error(`Unable to read ${file.name}. The file may be corrupted or password-protected.`);
       }
 
-      if (!extractedText || extractedText.trim().length === 0) {
-        throw new Error(`No readable text content found in ${file.name}. The document may be empty, corrupted, or contain only images.`);
-      }
-
-      console.log(`Extracted text preview from ${file.name}:`, extractedText.substring(0, 300) + '...');
-
-      // Extract financial figures
-      const figures = extractFinancialFigures(extractedText, file.name);
-      console.log(`Extracted ${figures.length} financial figures from ${file.name}:`, figures);
-
       return {
         fileName: file.name,
         extractedFigures: figures,
         extractionStatus: figures.length > 0 ? 'success' : 'partial',
-        errorMessage: figures.length === 0 ? 'No financial figures found in document. Please ensure the document contains financial data with clear labels and values.' : undefined
+        errorMessage: figures.length === 0 ? 'No financial figures found in document. Please ensure the document contains financial data with clear labels and values; scanned PDFs without a text layer cannot be read.' : undefined,
+        numberLocale,
+        numberLocaleSource: numberLocale ? (manualLocale ? 'manual' : 'detected') : undefined
       };
 
     } catch (error) {
@@ -243,10 +93,9 @@ export default function AnalysisEngine({ files, onAnalysisComplete }: AnalysisEn
         errorMessage: error instanceof Error ? error.message : 'Unknown error occurred during document analysis'
       };
     }
-  }, [files.length, extractFinancialFigures]);
+  }, [files.length, documentOptions, taxonomy]);
 
   const startAnalysis = useCallback(async () => {
-    console.log('Starting analysis of', files.length, 'documents');
     setAnalyses([]);
     setCurrentStep(0);
     setProgress(0);
@@ -254,7 +103,11 @@ export default function AnalysisEngine({ files, onAnalysisComplete }: AnalysisEn
     const results: DocumentAnalysis[] = [];
     
     for (let i = 0; i < files.length; i++) {
-      const analysis = await analyzeDocument(files[i], i);
+      const analysis: DocumentAnalysis = {
+        ...await analyzeDocument(files[i], i),
+        documentDate: documentOptions[files[i].name]?.documentDate,
+        role: documentOptions[files[i].name]?.role
+      };
       results.push(analysis);
       setAnalyses(prev => [...prev, analysis]);
       
@@ -262,9 +115,8 @@ export default function AnalysisEngine({ files, onAnalysisComplete }: AnalysisEn
       await new Promise(resolve => setTimeout(resolve, 500));
     }
 
-    console.log('Analysis complete. Results:', results);
     onAnalysisComplete(results);
-  }, [files, analyzeDocument, onAnalysisComplete]);
+  }, [files, documentOptions, analyzeDocument, onAnalysisComplete]);
 
   React.useEffect(() => {
     if (files.length >= 2) {
@@ -325,6 +177,7 @@ export default function AnalysisEngine({ files, onAnalysisComplete }: AnalysisEn
                     <p className="text-xs text-gray-500">
                       {analysis.extractionStatus === 'success' 
                         ? `${analysis.extractedFigures.length} financial figures extracted`
+                          + (analysis.numberLocale ? ` · numbers read as ${NUMBER_LOCALE_LABELS[analysis.numberLocale]}` : '')
                         : analysis.extractionStatus === 'partial'
                         ? 'No financial figures found'
                         : `Error: ${analysis.errorMessage}`
@@ -0,0 +1,171 @@
+import { ArrowLeft, Download } from 'lucide-react';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Card } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import type { ChangeKind, ComparisonResult, RunDiff } from '../../types/financial';
+import { formatComparisonValue } from '../../lib/comparison';
+import { SEVERITY_LABELS } from '../../lib/materiality';
+import { formatAmount } from '../../lib/numbers';
+import { consistencyRate } from '../../lib/runDiff';
+import { sessionTitle } from '../../lib/sessions';
+import { VERDICT_LABELS } from '../../lib/tolerance';
+
+interface RunDiffReportProps {
+  diff: RunDiff;
+  onExport: () => void;
+  onBack: () => void;
+}
+
+const CHANGE_CLASS_NAMES: Record<ChangeKind, string> = {
+  added: 'border-green-300 bg-green-50 text-green-800',
+  removed: 'border-red-300 bg-red-50 text-red-800',
+  changed: 'border-amber-300 bg-amber-50 text-amber-800'
+};
+
+const signed = (value: number, text: string) => `${value > 0 ? '+' : ''}${text}`;
+
+export default function RunDiffReport({ diff, onExport, onBack }: RunDiffReportProps) {
+  const { base, next, consistency } = diff;
+  const rateBefore = consistencyRate(consistency.before);
+  const rateAfter = consistencyRate(consistency.after);
+  const rateChange = rateAfter - rateBefore;
+  const figureChanges = diff.documents.reduce((count, documentDiff) => count + documentDiff.changes.length, 0);
+
+  const renderComparisons = (title: string, comparisons: ComparisonResult[], className: string) => (
+    <div>
+      <h4 className="font-medium text-gray-900 mb-2">{title} ({comparisons.length})</h4>
+      {comparisons.length > 0 ? (
+        <ul className="space-y-1">
+          {comparisons.map((comparison, index) => (
+            <li key={index} className={`text-sm ${className}`}>
+              • {comparison.field} for {comparison.periodLabel}: {VERDICT_LABELS[comparison.verdict]}
+              {comparison.severity && ` (${SEVERITY_LABELS[comparison.severity].toLowerCase()})`}
+              <span className="text-gray-500">
+                {' '}— {Object.entries(comparison.values)
+                  .filter((entry): entry is [string, number] => entry[1] !== null)
+                  .map(([doc, value]) => `${doc}: ${formatComparisonValue(comparison, doc, value)}`)
+                  .join(', ')}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">None</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Run Comparison</h2>
+          <p className="text-gray-600">
+            {sessionTitle(base)} ({new Date(base.createdAt).toLocaleString()}) to {sessionTitle(next)} ({new Date(next.createdAt).toLocaleString()})
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={onExport} className="flex items-center space-x-2">
+            <Download className="h-4 w-4" />
+            <span>Export PDF</span>
+          </Button>
+          <Button variant="outline" onClick={onBack} className="flex items-center space-x-2">
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back</span>
+          </Button>
+        </div>
+      </div>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Summary</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <div className="text-center p-4 bg-blue-50 rounded-lg">
+            <div className="text-2xl font-bold text-blue-600">{rateAfter.toFixed(1)}%</div>
+            <div className="text-sm text-gray-600">
+              Consistent, {signed(rateChange, `${rateChange.toFixed(1)} pp`)} from {rateBefore.toFixed(1)}%
+            </div>
+            {(consistency.before.restatedCount > 0 || consistency.after.restatedCount > 0) && (
+              <div className="text-xs text-purple-700 mt-1">
+                Restated: {consistency.before.restatedCount} before, {consistency.after.restatedCount} after
+              </div>
+            )}
+          </div>
+          <div className="text-center p-4 bg-red-50 rounded-lg">
+            <div className="text-2xl font-bold text-red-600">{diff.introduced.length}</div>
+            <div className="text-sm text-gray-600">Discrepancies Introduced</div>
+          </div>
+          <div className="text-center p-4 bg-green-50 rounded-lg">
+            <div className="text-2xl font-bold text-green-600">{diff.resolved.length}</div>
+            <div className="text-sm text-gray-600">Discrepancies Resolved</div>
+          </div>
+          <div className="text-center p-4 bg-amber-50 rounded-lg">
+            <div className="text-2xl font-bold text-amber-600">{figureChanges}</div>
+            <div className="text-sm text-gray-600">Figures Added, Removed or Changed</div>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {renderComparisons('Discrepancies Introduced', diff.introduced, 'text-red-600')}
+          {renderComparisons('Discrepancies Resolved', diff.resolved, 'text-green-700')}
+          {renderComparisons('Discrepancies No Longer Compared', diff.noLongerCompared, 'text-gray-700')}
+        </div>
+      </Card>
+
+      {diff.documents.map(documentDiff => (
+        <Card key={`${documentDiff.previousName}|${documentDiff.documentName}`} className="p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">{documentDiff.documentName}</h3>
+            {documentDiff.status === 'matched' && documentDiff.previousName !== documentDiff.documentName && (
+              <span className="text-sm text-gray-500">was {documentDiff.previousName}</span>
+            )}
+            {documentDiff.status !== 'matched' && (
+              <Badge variant="outline" className={CHANGE_CLASS_NAMES[documentDiff.status]}>
+                {documentDiff.status === 'added' ? 'New document' : 'No longer included'}
+              </Badge>
+            )}
+          </div>
+
+          {documentDiff.changes.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Field</TableHead>
+                    <TableHead className="text-right">Before</TableHead>
+                    <TableHead className="text-right">After</TableHead>
+                    <TableHead className="text-right">Difference</TableHead>
+                    <TableHead>Location</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {documentDiff.changes.map((change, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <Badge variant="outline" className={CHANGE_CLASS_NAMES[change.kind]}>{change.kind}</Badge>
+                      </TableCell>
+                      <TableCell>{change.periodLabel}</TableCell>
+                      <TableCell className="font-medium">{change.field}</TableCell>
+                      <TableCell className="text-right">{change.before !== null ? formatAmount(change.before, change.currency) : ''}</TableCell>
+                      <TableCell className="text-right">{change.after !== null ? formatAmount(change.after, change.currency) : ''}</TableCell>
+                      <TableCell className="text-right">
+                        {change.before !== null && change.after !== null
+                          ? signed(change.after - change.before, formatAmount(change.after - change.before, change.currency))
+                          : ''}
+                      </TableCell>
+                      <TableCell className="text-xs text-gray-500">{change.location}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No figures changed.</p>
+          )}
+        </Card>
+      ))}
+    </div>
+  );
+}
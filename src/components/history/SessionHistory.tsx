@@ -0,0 +1,203 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { FolderOpen, GitCompare, History, Trash2 } from 'lucide-react';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Card } from '../ui/card';
+import { Checkbox } from '../ui/checkbox';
+import { Input } from '../ui/input';
+import { useToast } from '../../hooks/use-toast';
+import { AnalysisSession } from '../../types/financial';
+import { deleteSession, listSessions, sessionTitle, storageUsage, updateSession } from '../../lib/sessions';
+
+interface SessionHistoryProps {
+  onOpen: (session: AnalysisSession) => void;
+  onCompare: (first: AnalysisSession, second: AnalysisSession) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const parseTags = (text: string) =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim()).filter(Boolean)));
+
+export default function SessionHistory({ onOpen, onCompare }: SessionHistoryProps) {
+  const [sessions, setSessions] = useState<AnalysisSession[]>([]);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState<{ [id: string]: { dealName?: string; tags?: string } }>({});
+  const { toast } = useToast();
+
+  const showError = useCallback((error: unknown) => {
+    toast({
+      title: "Session Storage Error",
+      description: error instanceof Error ? error.message : 'Unable to access saved sessions',
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+      setUsage(await storageUsage());
+    } catch (error) {
+      showError(error);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const setDraft = (id: string, changes: { dealName?: string; tags?: string }) =>
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+
+  // Edits are saved when the field loses focus rather than on every keystroke
+  const commit = async (session: AnalysisSession) => {
+    const draft = drafts[session.id];
+    if (!draft) return;
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[session.id];
+      return next;
+    });
+    try {
+      await updateSession(session.id, {
+        ...(draft.dealName !== undefined && { dealName: draft.dealName.trim() }),
+        ...(draft.tags !== undefined && { tags: parseTags(draft.tags) })
+      });
+      await refresh();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (session: AnalysisSession) => {
+    try {
+      await deleteSession(session.id);
+      setSelected(prev => prev.filter(id => id !== session.id));
+      await refresh();
+      toast({
+        title: "Session Deleted",
+        description: `${sessionTitle(session)} was removed from the history.`,
+      });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const blurOnEnter = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') event.currentTarget.blur();
+  };
+
+  // Two runs are compared at a time; picking a third replaces the earlier pick
+  const toggleSelected = (id: string, checked: boolean) =>
+    setSelected(prev => (checked ? [...prev.filter(other => other !== id), id].slice(-2) : prev.filter(other => other !== id)));
+
+  const compareSelected = () => {
+    const [first, second] = selected.map(id => sessions.find(session => session.id === id));
+    if (first && second) onCompare(first, second);
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center space-x-2">
+            <History className="h-5 w-5 text-gray-500" />
+            <span>Saved Sessions</span>
+          </h3>
+          <p className="text-sm text-gray-600">
+            Every analysis is kept in this browser. Reopen one to see its report without the original files.
+          </p>
+        </div>
+        <div className="flex flex-col items-end space-y-2">
+          {usage && (
+            <span className={`text-xs ${usage.usage / usage.quota > 0.8 ? 'text-red-600' : 'text-gray-500'}`}>
+              {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used
+            </span>
+          )}
+          {sessions.length >= 2 && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={selected.length !== 2}
+              onClick={compareSelected}
+              className="flex items-center space-x-1"
+              title="Tick two sessions to compare"
+            >
+              <GitCompare className="h-4 w-4" />
+              <span>Compare selected</span>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {sessions.map(session => {
+          const draft = drafts[session.id];
+          return (
+            <div key={session.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+              <div className="flex items-center justify-between space-x-2">
+                {sessions.length >= 2 && (
+                  <Checkbox
+                    checked={selected.includes(session.id)}
+                    onCheckedChange={checked => toggleSelected(session.id, checked === true)}
+                    aria-label={`Select ${sessionTitle(session)} for comparison`}
+                  />
+                )}
+                <Input
+                  value={draft?.dealName ?? session.dealName}
+                  placeholder={sessionTitle(session)}
+                  aria-label="Deal name"
+                  className="h-8 flex-1"
+                  onChange={event => setDraft(session.id, { dealName: event.target.value })}
+                  onBlur={() => commit(session)}
+                  onKeyDown={blurOnEnter}
+                />
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {new Date(session.createdAt).toLocaleString()}
+                </span>
+                <Button variant="outline" size="sm" onClick={() => onOpen(session)} className="flex items-center space-x-1">
+                  <FolderOpen className="h-4 w-4" />
+                  <span>Open</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(session)}
+                  className="text-red-500 hover:text-red-700"
+                  aria-label={`Delete ${sessionTitle(session)}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+                <span>{session.files.map(file => file.name).join(', ')}</span>
+                <Badge variant="secondary" className="bg-green-100 text-green-800">
+                  {session.summary.consistentCount} consistent
+                </Badge>
+                {session.summary.discrepancyCount > 0 && (
+                  <Badge variant="destructive">{session.summary.discrepancyCount} discrepancies</Badge>
+                )}
+                <Input
+                  value={draft?.tags ?? session.tags.join(', ')}
+                  placeholder="Tags, comma separated"
+                  aria-label="Tags"
+                  className="h-7 w-56 text-xs ml-auto"
+                  onChange={event => setDraft(session.id, { tags: event.target.value })}
+                  onBlur={() => commit(session)}
+                  onKeyDown={blurOnEnter}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
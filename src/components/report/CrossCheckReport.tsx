@@ -1,99 +1,65 @@
-import React, { useMemo } from 'react';
-import { CheckCircle, XCircle, Download, FileText } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { CheckCircle, XCircle, Download, FileJson, FileText, AlertTriangle, History } from 'lucide-react';
 import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
-import { DocumentAnalysis, ComparisonResult, CrossCheckReport } from '../../types/financial';
+import ToleranceControls from './ToleranceControls';
+import CurrencyControls from './CurrencyControls';
+import PeriodControls from './PeriodControls';
+import MaterialityControls from './MaterialityControls';
+import RestatementTimeline from './RestatementTimeline';
+import RuleControls from './RuleControls';
+import SourceViewer from '../viewer/SourceViewer';
+import type {
+  AnalysisSettings,
+  ConsistencyVerdict,
+  DocumentAnalysis,
+  ExtractedFigure,
+  ComparisonResult,
+  CrossCheckReport as CrossCheckReportData,
+  Severity
+} from '../../types/financial';
+import { LOW_CONFIDENCE } from '../../lib/candidates';
+import {
+  DOCUMENT_ROLE_LABELS,
+  buildCrossCheckReport,
+  comparisonConfidence,
+  describeDeviation,
+  formatComparisonValue
+} from '../../lib/comparison';
+import { SEVERITY_LABELS } from '../../lib/materiality';
+import { STATEMENT_CATEGORIES } from '../../lib/taxonomy';
+import { describeConversion } from '../../lib/fx';
+import { VERDICT_LABELS, isConsistentVerdict } from '../../lib/tolerance';
+import { formatAmount } from '../../lib/numbers';
 
 interface CrossCheckReportProps {
   analyses: DocumentAnalysis[];
+  files: File[];
+  settings: AnalysisSettings;
+  onSettingsChange: (settings: AnalysisSettings) => void;
   onExportPDF: () => void;
   onExportExcel: () => void;
+  onExportJSON: () => void;
   onStartOver: () => void;
 }
 
-export default function CrossCheckReport({ analyses, onExportPDF, onExportExcel, onStartOver }: CrossCheckReportProps) {
-  const report: CrossCheckReport = useMemo(() => {
-    // Create cross-document comparisons
-    const comparisons: ComparisonResult[] = [];
-    const allFields = new Set<string>();
-    const allYears = new Set<string>();
-    
-    // Collect all unique fields and years
-    analyses.forEach(analysis => {
-      analysis.extractedFigures.forEach(figure => {
-        allFields.add(figure.label);
-        allYears.add(figure.year);
-      });
-    });
-
-    // Create comparisons for each field-year combination
-    allFields.forEach(field => {
-      allYears.forEach(year => {
-        const values: { [documentName: string]: number | null } = {};
-        let category: 'Income Statement' | 'Balance Sheet' | 'Cash Flow Statement' = 'Income Statement';
-        
-        analyses.forEach(analysis => {
-          const figure = analysis.extractedFigures.find(f => f.label === field && f.year === year);
-          values[analysis.fileName] = figure ? figure.value : null;
-          if (figure) {
-            category = figure.category as 'Income Statement' | 'Balance Sheet' | 'Cash Flow Statement';
-          }
-        });
-
-        // Only include comparisons where at least 2 documents have values
-        const nonNullValues = Object.values(values).filter(v => v !== null);
-        if (nonNullValues.length >= 2) {
-          const uniqueValues = new Set(nonNullValues);
-          const consistent = uniqueValues.size === 1;
-          
-          comparisons.push({
-            year,
-            field,
-            values,
-            consistent,
-            category
-          });
-        }
-      });
-    });
+export default function CrossCheckReport({ analyses, files, settings, onSettingsChange, onExportPDF, onExportExcel, onExportJSON, onStartOver }: CrossCheckReportProps) {
+  const [viewing, setViewing] = useState<{ comparison: ComparisonResult; documentName: string } | null>(null);
+  const [hideLowConfidence, setHideLowConfidence] = useState(false);
 
-    // Generate summary
-    const totalComparisons = comparisons.length;
-    const consistentCount = comparisons.filter(c => c.consistent).length;
-    const discrepancyCount = totalComparisons - consistentCount;
-    
-    const keyDiscrepancies = comparisons
-      .filter(c => !c.consistent)
-      .slice(0, 5)
-      .map(c => {
-        const docValues = Object.entries(c.values)
-          .filter(([, value]) => value !== null)
-          .map(([doc, value]) => `${doc}: $${value?.toLocaleString()}`)
-          .join(', ');
-        return `${c.field} for ${c.year} differs (${docValues})`;
-      });
+  const report: CrossCheckReportData = useMemo(
+    () => buildCrossCheckReport(analyses, settings),
+    [analyses, settings]
+  );
 
-    const consistentSections = Array.from(new Set(
-      comparisons
-        .filter(c => c.consistent)
-        .map(c => c.category)
-    ));
-
-    return {
-      documentAnalyses: analyses,
-      comparisons,
-      summary: {
-        totalComparisons,
-        consistentCount,
-        discrepancyCount,
-        keyDiscrepancies,
-        consistentSections
-      }
-    };
-  }, [analyses]);
+  const documentCurrencies = useMemo(() => Array.from(new Set(
+    analyses.flatMap(analysis => analysis.extractedFigures.map(figure => figure.currency))
+  )).filter(Boolean).sort(), [analyses]);
 
   const groupedComparisons = useMemo(() => {
     const groups: { [key: string]: ComparisonResult[] } = {
@@ -102,28 +68,62 @@ export default function CrossCheckReport({ analyses, onExportPDF, onExportExcel,
       'Cash Flow Statement': []
     };
     
-    report.comparisons.forEach(comparison => {
-      groups[comparison.category].push(comparison);
-    });
+    report.comparisons
+      .filter(comparison => !hideLowConfidence || comparisonConfidence(comparison) >= LOW_CONFIDENCE)
+      .forEach(comparison => {
+        groups[comparison.category].push(comparison);
+      });
     
     return groups;
-  }, [report.comparisons]);
+  }, [report.comparisons, hideLowConfidence]);
+
+  const failedRuleCount = report.ruleResults.filter(result => !result.passed).length;
+
+  const lowConfidenceCount = useMemo(
+    () => report.comparisons.filter(comparison => comparisonConfidence(comparison) < LOW_CONFIDENCE).length,
+    [report.comparisons]
+  );
 
-  const formatValue = (value: number | null) => {
-    if (value === null) return 'N/A';
-    return `$${value.toLocaleString()}`;
+  const getScaleNote = (figure: ExtractedFigure) => {
+    if (figure.scaleSource === 'format') {
+      return `shown as ${figure.rawText} (${figure.scaleEvidence})`;
+    }
+    const reason = figure.scaleSource === 'section' && figure.scaleEvidence
+      ? `per "${figure.scaleEvidence}"`
+      : 'inline unit';
+    return `${figure.rawText} × ${figure.multiplier.toLocaleString()} (${reason})`;
   };
 
-  const getConsistencyIcon = (consistent: boolean) => {
-    return consistent ? (
-      <CheckCircle className="h-5 w-5 text-green-500" />
-    ) : (
-      <XCircle className="h-5 w-5 text-red-500" />
-    );
+  const getConfidenceClassName = (confidence: number) => {
+    if (confidence >= 0.8) return 'border-green-200 bg-green-50 text-green-800';
+    if (confidence >= LOW_CONFIDENCE) return 'border-amber-200 bg-amber-50 text-amber-800';
+    return 'border-red-200 bg-red-50 text-red-800';
+  };
+
+  const getRowClassName = (comparison: ComparisonResult) => {
+    if (comparison.verdict === 'restatement') return 'bg-purple-50';
+    if (!comparison.consistent) return 'bg-red-50';
+    return Object.keys(comparison.alternatives).length > 0 ? 'bg-amber-50' : '';
   };
 
-  const getConsistencyText = (consistent: boolean) => {
-    return consistent ? '✅ Yes' : '❌ No';
+  const getVerdictIcon = (verdict: ConsistencyVerdict) => {
+    if (verdict === 'restatement') return <History className="h-5 w-5 text-purple-500" />;
+    if (!isConsistentVerdict(verdict)) return <XCircle className="h-5 w-5 text-red-500" />;
+    if (verdict === 'exact') return <CheckCircle className="h-5 w-5 text-green-500" />;
+    return <AlertTriangle className="h-5 w-5 text-amber-500" />;
+  };
+
+  const getSeverityClassName = (severity: Severity) => {
+    if (severity === 'material') return 'border-red-300 bg-red-100 text-red-800';
+    if (severity === 'moderate') return 'border-amber-300 bg-amber-50 text-amber-800';
+    return 'border-gray-300 bg-gray-50 text-gray-700';
+  };
+
+  const getVerdictClassName = (verdict: ConsistencyVerdict) => {
+    if (verdict === 'restatement') return 'text-purple-600';
+    if (!isConsistentVerdict(verdict)) return 'text-red-600';
+    if (verdict === 'exact') return 'text-green-600';
+    return 'text-amber-600';
   };
 
   if (analyses.length === 0) {
@@ -154,30 +154,18 @@ export default function CrossCheckReport({ analyses, onExportPDF, onExportExcel,
               The Document Cross-Checker looks for the following financial figures:
             </p>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
-              <div>
-                <h4 className="font-medium text-gray-900 mb-2">Income Statement</h4>
-                <ul className="space-y-1 text-gray-600">
-                  <li>• Revenue/Sales</li>
-                  <li>• EBITDA</li>
-                  <li>• Net Income</li>
-                </ul>
-              </div>
-              <div>
-                <h4 className="font-medium text-gray-900 mb-2">Balance Sheet</h4>
-                <ul className="space-y-1 text-gray-600">
-                  <li>• Total Assets</li>
-                  <li>• Total Liabilities</li>
-                  <li>• Equity</li>
-                </ul>
-              </div>
-              <div>
-                <h4 className="font-medium text-gray-900 mb-2">Cash Flow</h4>
-                <ul className="space-y-1 text-gray-600">
-                  <li>• Operating Cash Flow</li>
-                  <li>• Investing Cash Flow</li>
-                  <li>• Financing Cash Flow</li>
-                </ul>
-              </div>
+              {STATEMENT_CATEGORIES.map(category => (
+                <div key={category}>
+                  <h4 className="font-medium text-gray-900 mb-2">{category}</h4>
+                  <ul className="space-y-1 text-gray-600">
+                    {settings.taxonomy.fields
+                      .filter(field => field.category === category)
+                      .map(field => (
+                        <li key={field.field} title={`Also read as: ${field.synonyms.join(', ')}`}>• {field.field}</li>
+                      ))}
+                  </ul>
+                </div>
+              ))}
             </div>
             <p className="text-gray-600 mt-4">
               Please ensure your documents contain financial statements with these figures clearly labeled.
@@ -204,7 +192,7 @@ export default function CrossCheckReport({ analyses, onExportPDF, onExportExcel,
       {/* Executive Summary */}
       <Card className="p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Executive Summary</h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
           <div className="text-center p-4 bg-blue-50 rounded-lg">
             <div className="text-2xl font-bold text-blue-600">{report.summary.totalComparisons}</div>
             <div className="text-sm text-gray-600">Total Comparisons</div>
@@ -217,12 +205,23 @@ export default function CrossCheckReport({ analyses, onExportPDF, onExportExcel,
             <div className="text-2xl font-bold text-red-600">{report.summary.discrepancyCount}</div>
             <div className="text-sm text-gray-600">Discrepancies Found</div>
           </div>
+          <div className="text-center p-4 bg-purple-50 rounded-lg">
+            <div className="text-2xl font-bold text-purple-600">{report.summary.restatedCount}</div>
+            <div className="text-sm text-gray-600">Restated Values</div>
+          </div>
         </div>
 
         <div className="space-y-4">
           {report.summary.discrepancyCount > 0 && (
             <div>
               <h4 className="font-medium text-gray-900 mb-2">Key Discrepancies:</h4>
+              <div className="flex flex-wrap gap-2 mb-2">
+                {(['material', 'moderate', 'trivial'] as Severity[]).map(severity => (
+                  <Badge key={severity} variant="outline" className={getSeverityClassName(severity)}>
+                    {report.summary.severityCounts[severity]} {SEVERITY_LABELS[severity].toLowerCase()}
+                  </Badge>
+                ))}
+              </div>
               <ul className="space-y-1">
                 {report.summary.keyDiscrepancies.map((discrepancy, index) => (
                   <li key={index} className="text-sm text-red-600">• {discrepancy}</li>
@@ -231,6 +230,39 @@ export default function CrossCheckReport({ analyses, onExportPDF, onExportExcel,
             </div>
           )}
 
+          {report.summary.restatements.length > 0 && (
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Restatements:</h4>
+              <ul className="space-y-1">
+                {report.summary.restatements.map((restatement, index) => (
+                  <li key={index} className="text-sm text-purple-700">• {restatement}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.summary.ambiguities.length > 0 && (
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Ambiguous Within Documents:</h4>
+              <ul className="space-y-1">
+                {report.summary.ambiguities.map((ambiguity, index) => (
+                  <li key={index} className="text-sm text-amber-700">• {ambiguity}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.summary.internalBreaks.length > 0 && (
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Internal Inconsistencies:</h4>
+              <ul className="space-y-1">
+                {report.summary.internalBreaks.map((internalBreak, index) => (
+                  <li key={index} className="text-sm text-red-600">• {internalBreak}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {report.summary.consistentSections.length > 0 && (
             <div>
               <h4 className="font-medium text-gray-900 mb-2">Consistent Sections:</h4>
@@ -246,6 +278,70 @@ export default function CrossCheckReport({ analyses, onExportPDF, onExportExcel,
         </div>
       </Card>
 
+      <RestatementTimeline comparisons={report.comparisons} />
+
+      {/* Tolerance Settings */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Tolerance</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Differences within these limits, or explained by figures stated to a rounder unit, are not reported as discrepancies.
+        </p>
+        <ToleranceControls
+          tolerance={settings.tolerance}
+          onChange={tolerance => onSettingsChange({ ...settings, tolerance })}
+        />
+      </Card>
+
+      {/* Currency Settings */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Currency</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Figures in different currencies are only compared once converted to a reporting currency using your FX rate table.
+        </p>
+        <CurrencyControls
+          currency={settings.currency}
+          documentCurrencies={documentCurrencies}
+          onChange={currency => onSettingsChange({ ...settings, currency })}
+        />
+      </Card>
+
+      {/* Period Settings */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Periods</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Figures are only compared when they cover the same period. Quarters, halves and fiscal years are dated from this year end unless a document states its own.
+        </p>
+        <PeriodControls
+          period={settings.period}
+          onChange={period => onSettingsChange({ ...settings, period })}
+        />
+      </Card>
+
+      {/* Materiality Settings */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Materiality</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Discrepancies are graded against this threshold: material at or above it, clearly trivial well below it and moderate in between. A field threshold replaces the overall one for that field.
+        </p>
+        <MaterialityControls
+          materiality={settings.materiality}
+          fields={settings.taxonomy.fields.map(field => field.field).filter(field => field.trim())}
+          onChange={materiality => onSettingsChange({ ...settings, materiality })}
+        />
+      </Card>
+
+      {/* Custom Rules */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Custom Rules</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Checks of your own, evaluated with the comparisons below. Results are listed under the Custom Rules tab.
+        </p>
+        <RuleControls
+          rules={settings.rules}
+          onChange={rules => onSettingsChange({ ...settings, rules })}
+        />
+      </Card>
+
       {/* Detailed Comparison Tables */}
       <Card className="p-6">
         <div className="flex items-center justify-between mb-6">
@@ -259,14 +355,42 @@ export default function CrossCheckReport({ analyses, onExportPDF, onExportExcel,
               <Download className="h-4 w-4" />
               <span>Export Excel</span>
             </Button>
+            <Button variant="outline" onClick={onExportJSON} className="flex items-center space-x-2">
+              <FileJson className="h-4 w-4" />
+              <span>Export JSON</span>
+            </Button>
           </div>
         </div>
 
+        <div className="flex items-center space-x-2 mb-4">
+          <Switch
+            id="hide-low-confidence"
+            checked={hideLowConfidence}
+            onCheckedChange={setHideLowConfidence}
+          />
+          <Label htmlFor="hide-low-confidence">
+            Hide comparisons with a figure below {LOW_CONFIDENCE} confidence
+            {lowConfidenceCount > 0 && ` (${lowConfidenceCount})`}
+          </Label>
+        </div>
+
         <Tabs defaultValue="Income Statement" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="Income Statement">Income Statement</TabsTrigger>
             <TabsTrigger value="Balance Sheet">Balance Sheet</TabsTrigger>
             <TabsTrigger value="Cash Flow Statement">Cash Flow Statement</TabsTrigger>
+            <TabsTrigger value="Internal Checks">
+              Internal Checks
+              {report.summary.internalBreaks.length > 0 && (
+                <Badge variant="destructive" className="ml-2">{report.summary.internalBreaks.length}</Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="Custom Rules">
+              Custom Rules
+              {failedRuleCount > 0 && (
+                <Badge variant="destructive" className="ml-2">{failedRuleCount}</Badge>
+              )}
+            </TabsTrigger>
           </TabsList>
 
           {Object.entries(groupedComparisons).map(([category, comparisons]) => (
@@ -276,39 +400,119 @@ export default function CrossCheckReport({ analyses, onExportPDF, onExportExcel,
                   <Table>
                     <TableHeader>
                       <TableRow>
-                        <TableHead>Year</TableHead>
+                        <TableHead>Period</TableHead>
                         <TableHead>Field</TableHead>
                         {analyses.map(analysis => (
                           <TableHead key={analysis.fileName} className="text-center">
                             {analysis.fileName}
+                            {analysis.role && (
+                              <Badge
+                                variant="outline"
+                                className={`ml-2 ${analysis.role === 'source_of_truth' ? 'border-blue-300 bg-blue-50 text-blue-800' : ''}`}
+                              >
+                                {DOCUMENT_ROLE_LABELS[analysis.role]}
+                              </Badge>
+                            )}
                           </TableHead>
                         ))}
-                        <TableHead className="text-center">Consistent?</TableHead>
+                        <TableHead className="text-right">Variance</TableHead>
+                        <TableHead className="text-center">Verdict</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {comparisons.map((comparison, index) => (
-                        <TableRow key={index} className={!comparison.consistent ? 'bg-red-50' : ''}>
-                          <TableCell className="font-medium">{comparison.year}</TableCell>
+                        <TableRow key={index} className={getRowClassName(comparison)}>
+                          <TableCell className="font-medium" title={`Period ending ${comparison.periodEnd}`}>{comparison.periodLabel}</TableCell>
                           <TableCell>{comparison.field}</TableCell>
-                          {analyses.map(analysis => (
-                            <TableCell key={analysis.fileName} className="text-center">
-                              <span className={
-                                comparison.values[analysis.fileName] !== null && !comparison.consistent
-                                  ? 'font-medium text-red-600'
-                                  : ''
-                              }>
-                                {formatValue(comparison.values[analysis.fileName])}
-                              </span>
-                            </TableCell>
-                          ))}
+                          {analyses.map(analysis => {
+                            const source = comparison.sources[analysis.fileName];
+                            const conversion = comparison.conversions[analysis.fileName];
+                            return (
+                              <TableCell key={analysis.fileName} className="text-center">
+                                <span className={
+                                  source && !comparison.consistent
+                                    ? comparison.verdict === 'restatement' ? 'font-medium text-purple-700' : 'font-medium text-red-600'
+                                    : ''
+                                }>
+                                  {formatComparisonValue(comparison, analysis.fileName, comparison.values[analysis.fileName])}
+                                </span>
+                                {source && (
+                                  <Badge
+                                    variant="outline"
+                                    className={`ml-2 text-xs ${getConfidenceClassName(source.confidence)}`}
+                                    title="Extraction confidence: label match, period distance, unit and currency certainty, table structure and text quality"
+                                  >
+                                    {source.confidence.toFixed(2)}
+                                  </Badge>
+                                )}
+                                {conversion && (
+                                  <div className="text-xs text-gray-500" title={describeConversion(conversion)}>
+                                    {formatAmount(conversion.originalValue, conversion.from)} @ {Number(conversion.rate.toFixed(6))} ({conversion.rateDate})
+                                  </div>
+                                )}
+                                {source && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setViewing({ comparison, documentName: analysis.fileName })}
+                                    className="block mx-auto text-xs text-blue-600 hover:underline font-mono"
+                                    title="Show this figure in the source document"
+                                  >
+                                    {source.location}
+                                  </button>
+                                )}
+                                {source && source.multiplier !== 1 && (
+                                  <div className="text-xs text-gray-500" title={source.scaleEvidence}>
+                                    {getScaleNote(source)}
+                                  </div>
+                                )}
+                                {comparison.documentVerdicts[analysis.fileName] && !isConsistentVerdict(comparison.documentVerdicts[analysis.fileName]) && (
+                                  <div className="text-xs text-red-700 mt-1">
+                                    {describeDeviation(comparison, analysis.fileName)}
+                                  </div>
+                                )}
+                                {comparison.alternatives[analysis.fileName] && (
+                                  <div className="mt-1 space-y-1">
+                                    <Badge variant="outline" className="border-amber-300 bg-amber-50 text-amber-800">
+                                      Ambiguous within document
+                                    </Badge>
+                                    {comparison.alternatives[analysis.fileName].map((alternative, altIndex) => (
+                                      <div key={altIndex} className="text-xs text-amber-700" title={`Ranked ${alternative.rank}, confidence ${alternative.confidence.toFixed(2)}`}>
+                                        also {formatAmount(alternative.value, alternative.currency)} at {alternative.location}
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+                              </TableCell>
+                            );
+                          })}
+                          <TableCell className="text-right whitespace-nowrap">
+                            {comparison.variance ? (
+                              <>
+                                <div>{formatAmount(comparison.variance.absolute, comparison.currency ?? undefined)}</div>
+                                {comparison.variance.percent !== null && (
+                                  <div className="text-xs text-gray-500">{comparison.variance.percent.toFixed(1)}%</div>
+                                )}
+                              </>
+                            ) : 'N/A'}
+                          </TableCell>
                           <TableCell className="text-center">
                             <div className="flex items-center justify-center space-x-2">
-                              {getConsistencyIcon(comparison.consistent)}
-                              <span className={comparison.consistent ? 'text-green-600' : 'text-red-600'}>
-                                {getConsistencyText(comparison.consistent)}
+                              {getVerdictIcon(comparison.verdict)}
+                              <span className={getVerdictClassName(comparison.verdict)}>
+                                {VERDICT_LABELS[comparison.verdict]}
                               </span>
                             </div>
+                            {comparison.severity && (
+                              <Badge
+                                variant="outline"
+                                className={`mt-1 ${getSeverityClassName(comparison.severity)}`}
+                                title={comparison.materiality !== null
+                                  ? `Materiality ${formatAmount(comparison.materiality, comparison.currency ?? undefined)}`
+                                  : 'No materiality threshold available'}
+                              >
+                                {SEVERITY_LABELS[comparison.severity]}
+                              </Badge>
+                            )}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -322,6 +526,116 @@ export default function CrossCheckReport({ analyses, onExportPDF, onExportExcel,
               )}
             </TabsContent>
           ))}
+
+          <TabsContent value="Internal Checks" className="mt-6">
+            {report.internalChecks.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Document</TableHead>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Check</TableHead>
+                      <TableHead className="text-right">Stated</TableHead>
+                      <TableHead className="text-right">Computed</TableHead>
+                      <TableHead className="text-right">Gap</TableHead>
+                      <TableHead className="text-center">Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.internalChecks.map((check, index) => (
+                      <TableRow key={index} className={!check.passed ? 'bg-red-50' : ''}>
+                        <TableCell className="font-medium">{check.documentName}</TableCell>
+                        <TableCell>{check.periodLabel}</TableCell>
+                        <TableCell>
+                          <div>{check.identity}</div>
+                          <div className="text-xs text-gray-500 font-mono">{check.expression}</div>
+                          <div className="text-xs text-gray-500">
+                            {check.operands.map(operand => `${operand.field} ${formatAmount(operand.value, check.currency)} (${operand.location})`).join('; ')}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(check.left, check.currency)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(check.right, check.currency)}</TableCell>
+                        <TableCell className={`text-right ${!check.passed ? 'font-medium text-red-600' : ''}`}>
+                          {formatAmount(check.gap, check.currency)}
+                        </TableCell>
+                        <TableCell className="text-center">
+                          <div className="flex items-center justify-center space-x-2">
+                            {getVerdictIcon(check.verdict)}
+                            <span className={getVerdictClassName(check.verdict)}>
+                              {check.passed ? (check.verdict === 'exact' ? 'Holds' : VERDICT_LABELS[check.verdict]) : 'Break'}
+                            </span>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                No document states all the figures an accounting identity needs.
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="Custom Rules" className="mt-6">
+            {report.ruleResults.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rule</TableHead>
+                      <TableHead>Document</TableHead>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Operands</TableHead>
+                      <TableHead className="text-right">Left</TableHead>
+                      <TableHead className="text-right">Right</TableHead>
+                      <TableHead className="text-center">Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.ruleResults.map((result, index) => (
+                      <TableRow key={index} className={!result.passed ? 'bg-red-50' : ''}>
+                        <TableCell>
+                          <div className="font-medium">{result.name}</div>
+                          <div className="text-xs text-gray-500 font-mono">{result.expression}</div>
+                        </TableCell>
+                        <TableCell>{result.documentName ?? 'As referenced'}</TableCell>
+                        <TableCell>{result.periodLabel}</TableCell>
+                        <TableCell className="text-xs text-gray-600">
+                          {result.operands.map((operand, operandIndex) => (
+                            <div key={operandIndex}>
+                              <span className="font-mono">{operand.reference}</span> = {operand.value.toLocaleString()}
+                              <span className="text-gray-400"> ({operand.documentName}, {operand.location})</span>
+                            </div>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-right">{Number(result.left.toPrecision(6)).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{Number(result.right.toPrecision(6)).toLocaleString()}</TableCell>
+                        <TableCell className="text-center">
+                          <div className="flex items-center justify-center space-x-2">
+                            {result.passed
+                              ? <CheckCircle className="h-5 w-5 text-green-500" />
+                              : <XCircle className="h-5 w-5 text-red-500" />}
+                            <span className={result.passed ? 'text-green-600' : 'text-red-600'}>
+                              {result.passed ? 'Pass' : 'Fail'}
+                            </span>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                {settings.rules.some(rule => rule.expression.trim())
+                  ? 'No rule could be evaluated: the documents do not state every figure the rules reference.'
+                  : 'Add a custom rule above to check relationships between figures.'}
+              </div>
+            )}
+          </TabsContent>
         </Tabs>
       </Card>
 
@@ -330,6 +644,14 @@ export default function CrossCheckReport({ analyses, onExportPDF, onExportExcel,
           Analyze New Documents
         </Button>
       </div>
+
+      <SourceViewer
+        files={files}
+        comparison={viewing?.comparison ?? null}
+        documentName={viewing?.documentName ?? null}
+        onDocumentChange={documentName => setViewing(current => current && { ...current, documentName })}
+        onClose={() => setViewing(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
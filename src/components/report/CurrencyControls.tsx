@@ -0,0 +1,91 @@
+import React, { useCallback } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useToast } from '../../hooks/use-toast';
+import { CurrencySettings } from '../../types/financial';
+import { CURRENCY_CODES } from '../../lib/currency';
+import { parseFxRatesCsv } from '../../lib/fx';
+
+interface CurrencyControlsProps {
+  currency: CurrencySettings;
+  documentCurrencies: string[];
+  onChange: (currency: CurrencySettings) => void;
+}
+
+export default function CurrencyControls({ currency, documentCurrencies, onChange }: CurrencyControlsProps) {
+  const { toast } = useToast();
+  const currencyOptions = Array.from(new Set([...documentCurrencies, ...CURRENCY_CODES]));
+
+  const handleRatesFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const fxRates = parseFxRatesCsv(await file.text());
+      onChange({ ...currency, fxRates });
+      toast({
+        title: "FX Rates Loaded",
+        description: `${fxRates.length} rates loaded from ${file.name}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid FX Rate File",
+        description: error instanceof Error ? error.message : 'Unable to read FX rates',
+        variant: "destructive",
+      });
+    }
+  }, [currency, onChange, toast]);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+      <div className="space-y-1">
+        <Label htmlFor="reporting-currency">Reporting currency</Label>
+        <Select
+          value={currency.reportingCurrency ?? 'none'}
+          onValueChange={value => onChange({ ...currency, reportingCurrency: value === 'none' ? null : value })}
+        >
+          <SelectTrigger id="reporting-currency">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No conversion</SelectItem>
+            {currencyOptions.map(code => (
+              <SelectItem key={code} value={code}>{code}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label>FX rate table (CSV: date,from,to,rate)</Label>
+        <div className="flex items-center space-x-2">
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleRatesFile}
+            className="hidden"
+            id="fx-rates-upload"
+          />
+          <label htmlFor="fx-rates-upload">
+            <Button variant="outline" size="sm" asChild>
+              <span className="cursor-pointer flex items-center space-x-2">
+                <Upload className="h-4 w-4" />
+                <span>Upload Rates</span>
+              </span>
+            </Button>
+          </label>
+          <span className="text-sm text-gray-600">
+            {currency.fxRates.length > 0 ? `${currency.fxRates.length} rates loaded` : 'No rates loaded'}
+          </span>
+          {currency.fxRates.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => onChange({ ...currency, fxRates: [] })}>
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { MaterialityBasis, MaterialitySettings } from '../../types/financial';
+import { MATERIALITY_BASIS_LABELS } from '../../lib/materiality';
+
+interface MaterialityControlsProps {
+  materiality: MaterialitySettings;
+  fields: string[];
+  onChange: (materiality: MaterialitySettings) => void;
+}
+
+const parseThreshold = (text: string) => {
+  const value = parseFloat(text);
+  return isNaN(value) || value < 0 ? 0 : value;
+};
+
+export default function MaterialityControls({ materiality, fields, onChange }: MaterialityControlsProps) {
+  const handleNumberChange = (key: 'amount' | 'percent' | 'trivialPercent') => (event: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...materiality, [key]: parseThreshold(event.target.value) });
+  };
+
+  const setFieldThreshold = (field: string, threshold: number | null, previous = field) => {
+    const fieldThresholds = { ...materiality.fieldThresholds };
+    delete fieldThresholds[previous];
+    if (threshold !== null) fieldThresholds[field] = threshold;
+    onChange({ ...materiality, fieldThresholds });
+  };
+
+  const overridden = Object.keys(materiality.fieldThresholds);
+  const available = fields.filter(field => !overridden.includes(field));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="materiality-basis">Overall materiality</Label>
+          <Select
+            value={materiality.basis}
+            onValueChange={value => onChange({ ...materiality, basis: value as MaterialityBasis })}
+          >
+            <SelectTrigger id="materiality-basis">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(MATERIALITY_BASIS_LABELS).map(([basis, label]) => (
+                <SelectItem key={basis} value={basis}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {materiality.basis === 'amount' ? (
+          <div className="space-y-1">
+            <Label htmlFor="materiality-amount">Amount (reporting currency)</Label>
+            <Input
+              id="materiality-amount"
+              type="number"
+              min={0}
+              step={1000}
+              value={materiality.amount}
+              onChange={handleNumberChange('amount')}
+            />
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <Label htmlFor="materiality-percent">Share (%)</Label>
+            <Input
+              id="materiality-percent"
+              type="number"
+              min={0}
+              step={0.1}
+              value={materiality.percent}
+              onChange={handleNumberChange('percent')}
+            />
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor="materiality-trivial">Clearly trivial below (% of materiality)</Label>
+          <Input
+            id="materiality-trivial"
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            value={materiality.trivialPercent}
+            onChange={handleNumberChange('trivialPercent')}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {overridden.map(field => (
+          <div key={field} className="flex items-center space-x-2">
+            <Select value={field} onValueChange={value => setFieldThreshold(value, materiality.fieldThresholds[field], field)}>
+              <SelectTrigger className="w-56" aria-label="Field">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[field, ...available].map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={0}
+              step={1000}
+              value={materiality.fieldThresholds[field]}
+              aria-label={`Materiality for ${field}`}
+              className="w-40"
+              onChange={event => setFieldThreshold(field, parseThreshold(event.target.value))}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setFieldThreshold(field, null)}
+              className="text-red-500 hover:text-red-700"
+              aria-label={`Remove materiality for ${field}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        {available.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setFieldThreshold(available[0], 0)}
+            className="flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add field threshold</span>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { PeriodSettings } from '../../types/financial';
+import { MONTH_NAMES } from '../../lib/periods';
+
+interface PeriodControlsProps {
+  period: PeriodSettings;
+  onChange: (period: PeriodSettings) => void;
+}
+
+export default function PeriodControls({ period, onChange }: PeriodControlsProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+      <div className="space-y-1">
+        <Label htmlFor="fiscal-year-end">Fiscal year ends in</Label>
+        <Select
+          value={String(period.fiscalYearEndMonth)}
+          onValueChange={value => onChange({ ...period, fiscalYearEndMonth: parseInt(value, 10) })}
+        >
+          <SelectTrigger id="fiscal-year-end">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MONTH_NAMES.map((month, index) => (
+              <SelectItem key={month} value={String(index + 1)}>{month}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { History } from 'lucide-react';
+import { Card } from '../ui/card';
+import type { ComparisonResult } from '../../types/financial';
+import { formatComparisonValue, restatementTimeline } from '../../lib/comparison';
+
+interface RestatementTimelineProps {
+  comparisons: ComparisonResult[];
+}
+
+export default function RestatementTimeline({ comparisons }: RestatementTimelineProps) {
+  const restated = comparisons.filter(comparison => comparison.verdict === 'restatement');
+  if (restated.length === 0) return null;
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Restatements</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        These figures changed between documents of different dates, and documents of the same date agree, so a later document restated them.
+      </p>
+      <div className="space-y-4">
+        {restated.map((comparison, index) => (
+          <div key={index}>
+            <h4 className="font-medium text-gray-900 mb-2">
+              {comparison.field} <span className="font-normal text-gray-500">· {comparison.periodLabel}</span>
+            </h4>
+            <ol className="relative border-l border-purple-200 ml-2 space-y-3">
+              {restatementTimeline(comparison).map(entry => (
+                <li key={entry.documentName} className="ml-4">
+                  <History className="absolute -left-2 h-4 w-4 text-purple-500 bg-white" />
+                  <div className="text-xs text-gray-500">{entry.documentDate || 'Undated'} · {entry.documentName}</div>
+                  <div className="text-sm">
+                    <span className="font-medium">{formatComparisonValue(comparison, entry.documentName, entry.value)}</span>
+                    {entry.change !== null && entry.change !== 0 && (
+                      <span className="ml-2 text-purple-700">
+                        {entry.change > 0 ? '+' : '−'}{formatComparisonValue(comparison, entry.documentName, Math.abs(entry.change))}
+                      </span>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { CustomRule } from '../../types/financial';
+import { ruleError } from '../../lib/rules';
+
+interface RuleControlsProps {
+  rules: CustomRule[];
+  onChange: (rules: CustomRule[]) => void;
+}
+
+export default function RuleControls({ rules, onChange }: RuleControlsProps) {
+  const updateRule = (id: string, changes: Partial<CustomRule>) => {
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.map(rule => {
+        const error = rule.expression.trim() ? ruleError(rule.expression) : null;
+        return (
+          <div key={rule.id} className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <Input
+                value={rule.name}
+                placeholder="Name, e.g. CIM net debt"
+                aria-label="Rule name"
+                className="w-56"
+                onChange={event => updateRule(rule.id, { name: event.target.value })}
+              />
+              <Input
+                value={rule.expression}
+                placeholder="{Net Debt @cim} = {Total Debt @model} - {Cash and Equivalents @model}"
+                aria-label={`Expression for ${rule.name || 'rule'}`}
+                aria-invalid={error !== null}
+                className={`flex-1 font-mono text-sm ${error ? 'border-red-400' : ''}`}
+                onChange={event => updateRule(rule.id, { expression: event.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                className="text-red-500 hover:text-red-700"
+                aria-label={`Remove ${rule.name || 'rule'}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </div>
+        );
+      })}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rules, { id: `rule-${Date.now()}`, name: '', expression: '' }])}
+        className="flex items-center space-x-2"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add rule</span>
+      </Button>
+
+      <p className="text-xs text-gray-500">
+        Write fields in braces and compare two expressions with =, &lt;=, &gt;=, &lt; or &gt;. Add @ and part of a file
+        name, or a role (@source, @derived, @draft), to read a field from particular documents, # and a period
+        (FY2023, prior) to fix the period, and end with "within 0.5%", "within 1000" or "within 0.5pp" to set the
+        allowed difference. Example: {'{EBITDA @deck} / {Revenue @deck} = {EBITDA @model} / {Revenue @model} within 0.5pp'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
+import { ToleranceSettings } from '../../types/financial';
+
+interface ToleranceControlsProps {
+  tolerance: ToleranceSettings;
+  onChange: (tolerance: ToleranceSettings) => void;
+}
+
+export default function ToleranceControls({ tolerance, onChange }: ToleranceControlsProps) {
+  const handleNumberChange = (key: 'absolute' | 'relativePercent') => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(event.target.value);
+    onChange({ ...tolerance, [key]: isNaN(value) || value < 0 ? 0 : value });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+      <div className="space-y-1">
+        <Label htmlFor="tolerance-relative">Relative tolerance (%)</Label>
+        <Input
+          id="tolerance-relative"
+          type="number"
+          min={0}
+          step={0.1}
+          value={tolerance.relativePercent}
+          onChange={handleNumberChange('relativePercent')}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="tolerance-absolute">Absolute tolerance</Label>
+        <Input
+          id="tolerance-absolute"
+          type="number"
+          min={0}
+          step={1}
+          value={tolerance.absolute}
+          onChange={handleNumberChange('absolute')}
+        />
+      </div>
+      <div className="flex items-center space-x-2 h-9">
+        <Switch
+          id="tolerance-rounding"
+          checked={tolerance.roundingAware}
+          onCheckedChange={roundingAware => onChange({ ...tolerance, roundingAware })}
+        />
+        <Label htmlFor="tolerance-rounding">Accept rounding differences</Label>
+      </div>
+    </div>
+  );
+}
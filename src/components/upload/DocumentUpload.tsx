@@ -1,16 +1,30 @@
 import React, { useCallback } from 'react';
-import { Upload, FileText, X } from 'lucide-react';
+import { Upload, FileText, X, ChevronDown, FolderOpen } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Card } from '../ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import TaxonomyControls from './TaxonomyControls';
+import { DocumentOptions, DocumentRole, FieldTaxonomy, NumberLocale } from '../../types/financial';
+import { DOCUMENT_ROLE_LABELS } from '../../lib/comparison';
+import { NUMBER_LOCALE_LABELS } from '../../lib/numbers';
 
 interface DocumentUploadProps {
   files: File[];
   onFilesChange: (files: File[]) => void;
+  documentOptions: { [fileName: string]: DocumentOptions };
+  onDocumentOptionsChange: (fileName: string, options: DocumentOptions) => void;
+  taxonomy: FieldTaxonomy;
+  onTaxonomyChange: (taxonomy: FieldTaxonomy) => void;
   onAnalyze: () => void;
+  onOpenResults: (file: File) => void;
+  dealName: string;
+  onDealNameChange: (dealName: string) => void;
   isAnalyzing: boolean;
 }
 
-export default function DocumentUpload({ files, onFilesChange, onAnalyze, isAnalyzing }: DocumentUploadProps) {
+export default function DocumentUpload({ files, onFilesChange, documentOptions, onDocumentOptionsChange, taxonomy, onTaxonomyChange, onAnalyze, onOpenResults, dealName, onDealNameChange, isAnalyzing }: DocumentUploadProps) {
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(event.target.files || []);
     console.log('Selected files:', selectedFiles.map(f => ({ name: f.name, size: f.size, type: f.type })));
@@ -138,6 +152,12 @@ export default function DocumentUpload({ files, onFilesChange, onAnalyze, isAnal
     }
   }, [files, onFilesChange]);
 
+  const handleResultsSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onOpenResults(file);
+  }, [onOpenResults]);
+
   const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
   }, []);
@@ -196,6 +216,25 @@ export default function DocumentUpload({ files, onFilesChange, onAnalyze, isAnal
           </label>
         </div>
 
+        <div className="mt-4 flex items-center justify-center space-x-2 text-sm text-gray-600">
+          <span>Have results exported earlier?</span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleResultsSelect}
+            className="hidden"
+            id="results-upload"
+          />
+          <label htmlFor="results-upload">
+            <Button variant="ghost" size="sm" asChild>
+              <span className="cursor-pointer flex items-center space-x-1">
+                <FolderOpen className="h-4 w-4" />
+                <span>Open results file</span>
+              </span>
+            </Button>
+          </label>
+        </div>
+
         {files.length > 0 && (
           <div className="mt-6">
             <h3 className="text-lg font-medium text-gray-900 mb-4">
@@ -214,14 +253,61 @@ export default function DocumentUpload({ files, onFilesChange, onAnalyze, isAnal
                       <p className="text-xs text-gray-500">{formatFileSize(file.size)}</p>
                     </div>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => removeFile(index)}
-                    className="text-red-500 hover:text-red-700"
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
+                  <div className="flex items-center space-x-2">
+                    <Select
+                      value={documentOptions[file.name]?.role ?? 'peer'}
+                      onValueChange={value => onDocumentOptionsChange(file.name, {
+                        ...documentOptions[file.name],
+                        role: value === 'peer' ? undefined : value as DocumentRole
+                      })}
+                    >
+                      <SelectTrigger className="w-36 h-8 text-xs" aria-label={`Role of ${file.name}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="peer">Peer</SelectItem>
+                        {(Object.keys(DOCUMENT_ROLE_LABELS) as DocumentRole[]).map(role => (
+                          <SelectItem key={role} value={role}>{DOCUMENT_ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="date"
+                      value={documentOptions[file.name]?.documentDate ?? ''}
+                      onChange={event => onDocumentOptionsChange(file.name, {
+                        ...documentOptions[file.name],
+                        documentDate: event.target.value || undefined
+                      })}
+                      className="w-36 h-8 text-xs"
+                      aria-label={`Document date for ${file.name}`}
+                      title="Date the document was issued; leave empty to use its latest reported period"
+                    />
+                    <Select
+                      value={documentOptions[file.name]?.numberLocale ?? 'auto'}
+                      onValueChange={value => onDocumentOptionsChange(file.name, {
+                        ...documentOptions[file.name],
+                        numberLocale: value === 'auto' ? undefined : value as NumberLocale
+                      })}
+                    >
+                      <SelectTrigger className="w-44 h-8 text-xs" aria-label={`Number format for ${file.name}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Auto-detect format</SelectItem>
+                        {(Object.keys(NUMBER_LOCALE_LABELS) as NumberLocale[]).map(locale => (
+                          <SelectItem key={locale} value={locale}>{NUMBER_LOCALE_LABELS[locale]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeFile(index)}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
               ))}
             </div>
@@ -230,6 +316,13 @@ export default function DocumentUpload({ files, onFilesChange, onAnalyze, isAnal
 
         {files.length >= 2 && (
           <div className="mt-6 text-center">
+            <Input
+              value={dealName}
+              onChange={event => onDealNameChange(event.target.value)}
+              placeholder="Deal name (optional)"
+              aria-label="Deal name"
+              className="max-w-xs mx-auto mb-4"
+            />
             <Button
               onClick={onAnalyze}
               disabled={isAnalyzing}
@@ -251,6 +344,24 @@ export default function DocumentUpload({ files, onFilesChange, onAnalyze, isAnal
           </div>
         )}
       </Card>
+
+      {/* Field Taxonomy */}
+      <Card className="p-6">
+        <Collapsible>
+          <CollapsibleTrigger className="flex w-full items-center justify-between text-left group">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">Field Taxonomy</h3>
+              <p className="text-sm text-gray-600">
+                {taxonomy.fields.length} fields are extracted and compared. Edit their synonyms, or import your team's taxonomy file.
+              </p>
+            </div>
+            <ChevronDown className="h-5 w-5 text-gray-500 transition-transform group-data-[state=open]:rotate-180" />
+          </CollapsibleTrigger>
+          <CollapsibleContent className="mt-4">
+            <TaxonomyControls taxonomy={taxonomy} onChange={onTaxonomyChange} />
+          </CollapsibleContent>
+        </Collapsible>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,208 @@
+import React, { useCallback } from 'react';
+import { Download, Plus, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { useToast } from '../../hooks/use-toast';
+import { ExpectedSign, FieldTaxonomy, FieldUnit, StatementCategory, TaxonomyField } from '../../types/financial';
+import {
+  DEFAULT_TAXONOMY,
+  EXPECTED_SIGN_LABELS,
+  FIELD_UNIT_LABELS,
+  STATEMENT_CATEGORIES,
+  parseTaxonomy,
+  serializeTaxonomy
+} from '../../lib/taxonomy';
+
+interface TaxonomyControlsProps {
+  taxonomy: FieldTaxonomy;
+  onChange: (taxonomy: FieldTaxonomy) => void;
+}
+
+// Phrases are edited as one semicolon-separated list so synonyms may themselves contain commas
+const joinPhrases = (phrases: string[]) => phrases.join('; ');
+const splitPhrases = (text: string) => text.split(';').map(phrase => phrase.trimStart());
+
+export default function TaxonomyControls({ taxonomy, onChange }: TaxonomyControlsProps) {
+  const { toast } = useToast();
+
+  const updateField = (index: number, changes: Partial<TaxonomyField>) => {
+    onChange({ fields: taxonomy.fields.map((field, i) => (i === index ? { ...field, ...changes } : field)) });
+  };
+
+  const handleTaxonomyFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseTaxonomy(await file.text(), file.name);
+      onChange(imported);
+      toast({
+        title: "Taxonomy Loaded",
+        description: `${imported.fields.length} fields loaded from ${file.name}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid Taxonomy File",
+        description: error instanceof Error ? error.message : 'Unable to read taxonomy',
+        variant: "destructive",
+      });
+    }
+  }, [onChange, toast]);
+
+  const handleExport = () => {
+    const blob = new Blob([serializeTaxonomy(taxonomy)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'field-taxonomy.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="file"
+          accept=".json,.yaml,.yml,application/json"
+          onChange={handleTaxonomyFile}
+          className="hidden"
+          id="taxonomy-upload"
+        />
+        <label htmlFor="taxonomy-upload">
+          <Button variant="outline" size="sm" asChild>
+            <span className="cursor-pointer flex items-center space-x-2">
+              <Upload className="h-4 w-4" />
+              <span>Import JSON/YAML</span>
+            </span>
+          </Button>
+        </label>
+        <Button variant="outline" size="sm" onClick={handleExport} className="flex items-center space-x-2">
+          <Download className="h-4 w-4" />
+          <span>Export JSON</span>
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_TAXONOMY)} className="flex items-center space-x-2">
+          <RotateCcw className="h-4 w-4" />
+          <span>Reset to defaults</span>
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Statement</TableHead>
+              <TableHead>Synonyms (separate with ;)</TableHead>
+              <TableHead>Exclusions</TableHead>
+              <TableHead>Expected sign</TableHead>
+              <TableHead>Unit</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {taxonomy.fields.map((field, index) => (
+              <TableRow key={index}>
+                <TableCell className="min-w-36">
+                  <Input
+                    value={field.field}
+                    aria-label="Field name"
+                    onChange={event => updateField(index, { field: event.target.value })}
+                  />
+                </TableCell>
+                <TableCell className="min-w-44">
+                  <Select
+                    value={field.category}
+                    onValueChange={value => updateField(index, { category: value as StatementCategory })}
+                  >
+                    <SelectTrigger aria-label={`Statement for ${field.field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STATEMENT_CATEGORIES.map(category => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="min-w-64">
+                  <Input
+                    value={joinPhrases(field.synonyms)}
+                    aria-label={`Synonyms for ${field.field}`}
+                    onChange={event => updateField(index, { synonyms: splitPhrases(event.target.value) })}
+                  />
+                </TableCell>
+                <TableCell className="min-w-48">
+                  <Input
+                    value={joinPhrases(field.exclusions)}
+                    aria-label={`Exclusions for ${field.field}`}
+                    placeholder="e.g. deferred revenue"
+                    onChange={event => updateField(index, { exclusions: splitPhrases(event.target.value) })}
+                  />
+                </TableCell>
+                <TableCell className="min-w-32">
+                  <Select
+                    value={field.expectedSign}
+                    onValueChange={value => updateField(index, { expectedSign: value as ExpectedSign })}
+                  >
+                    <SelectTrigger aria-label={`Expected sign for ${field.field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(EXPECTED_SIGN_LABELS) as ExpectedSign[]).map(sign => (
+                        <SelectItem key={sign} value={sign}>{EXPECTED_SIGN_LABELS[sign]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="min-w-28">
+                  <Select
+                    value={field.unit}
+                    onValueChange={value => updateField(index, { unit: value as FieldUnit })}
+                  >
+                    <SelectTrigger aria-label={`Unit for ${field.field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FIELD_UNIT_LABELS) as FieldUnit[]).map(unit => (
+                        <SelectItem key={unit} value={unit}>{FIELD_UNIT_LABELS[unit]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange({ fields: taxonomy.fields.filter((_, i) => i !== index) })}
+                    className="text-red-500 hover:text-red-700"
+                    aria-label={`Remove ${field.field}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange({
+          fields: [...taxonomy.fields, { field: '', category: 'Income Statement', synonyms: [], exclusions: [], expectedSign: 'any', unit: 'currency' }]
+        })}
+        className="flex items-center space-x-2"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add field</span>
+      </Button>
+    </div>
+  );
+}
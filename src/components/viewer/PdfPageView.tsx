@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import type { BoundingBox } from '../../types/financial';
+import { loadPdfDocument } from '../../lib/parsers/pdf';
+
+interface PdfPageViewProps {
+  file: File;
+  page: number;
+  box: BoundingBox;
+}
+
+const RENDER_SCALE = 1.5;
+
+export default function PdfPageView({ file, page, box }: PdfPageViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'failed'>('loading');
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus('loading');
+
+    (async () => {
+      const pdf = await loadPdfDocument(await file.arrayBuffer());
+      try {
+        const pdfPage = await pdf.getPage(page);
+        const viewport = pdfPage.getViewport({ scale: RENDER_SCALE });
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        await pdfPage.render({ canvas, viewport }).promise;
+        if (!cancelled) setStatus('ready');
+      } finally {
+        await pdf.destroy();
+      }
+    })().catch(error => {
+      console.error(`Unable to render page ${page} of ${file.name}:`, error);
+      if (!cancelled) setStatus('failed');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, page]);
+
+  useEffect(() => {
+    if (status === 'ready') highlightRef.current?.scrollIntoView({ block: 'center', inline: 'center' });
+  }, [status, box]);
+
+  if (status === 'failed') {
+    return <p className="text-sm text-red-600">Unable to render page {page} of {file.name}.</p>;
+  }
+
+  return (
+    <div className="relative inline-block border border-gray-200 shadow-sm">
+      {status === 'loading' && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+        </div>
+      )}
+      <canvas ref={canvasRef} className="block" />
+      {status === 'ready' && (
+        <div
+          ref={highlightRef}
+          className="absolute border-2 border-amber-500 bg-amber-300/30 rounded-sm pointer-events-none"
+          style={{
+            left: (box.x - 2) * RENDER_SCALE,
+            top: (box.y - 2) * RENDER_SCALE,
+            width: (box.width + 4) * RENDER_SCALE,
+            height: (box.height + 4) * RENDER_SCALE
+          }}
+        />
+      )}
+    </div>
+  );
+}
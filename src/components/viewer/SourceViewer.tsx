@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '../ui/sheet';
+import PdfPageView from './PdfPageView';
+import SpreadsheetView from './SpreadsheetView';
+import WordDocumentView from './WordDocumentView';
+import type { ComparisonResult, ExtractedFigure } from '../../types/financial';
+import { formatComparisonValue } from '../../lib/comparison';
+import { UNKNOWN_LOCATION } from '../../lib/extraction';
+import { parseDocx } from '../../lib/parsers/docx';
+import type { DocxModel } from '../../lib/parsers/docx';
+import { parseXlsx } from '../../lib/parsers/xlsx';
+import type { SpreadsheetModel } from '../../lib/parsers/xlsx';
+
+interface SourceViewerProps {
+  files: File[];
+  comparison: ComparisonResult | null;
+  documentName: string | null;
+  onDocumentChange: (documentName: string) => void;
+  onClose: () => void;
+}
+
+type ParsedSource =
+  | { kind: 'xlsx'; workbook: SpreadsheetModel }
+  | { kind: 'docx'; document: DocxModel };
+
+// Workbooks and Word files are parsed once per upload, however often the reviewer reopens them
+const parsedSources = new WeakMap<File, Promise<ParsedSource>>();
+
+const loadParsedSource = (file: File, kind: ParsedSource['kind']) => {
+  let parsed = parsedSources.get(file);
+  if (!parsed) {
+    parsed = file.arrayBuffer().then(async data => kind === 'xlsx'
+      ? { kind, workbook: await parseXlsx(data) }
+      : { kind, document: await parseDocx(data) });
+    parsedSources.set(file, parsed);
+  }
+  return parsed;
+};
+
+function SourcePane({ file, figure }: { file: File; figure: ExtractedFigure }) {
+  const anchor = figure.anchor;
+  const parsedKind = anchor?.kind === 'cell' ? 'xlsx' : anchor?.kind === 'paragraph' || anchor?.kind === 'table-cell' ? 'docx' : null;
+  const [parsed, setParsed] = useState<ParsedSource | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setParsed(null);
+    setError(null);
+    if (!parsedKind) return;
+
+    loadParsedSource(file, parsedKind)
+      .then(result => { if (!cancelled) setParsed(result); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to open document'); });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, parsedKind]);
+
+  if (!anchor) {
+    return (
+      <p className="text-sm text-gray-600">
+        No position was recorded for this figure{figure.location !== UNKNOWN_LOCATION && ` (${figure.location})`}. It was read as "{figure.rawText}".
+      </p>
+    );
+  }
+  if (anchor.kind === 'pdf') {
+    return <PdfPageView file={file} page={anchor.page} box={anchor.box} />;
+  }
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+  if (!parsed) {
+    return <Loader2 className="h-6 w-6 animate-spin text-blue-500" />;
+  }
+  if (anchor.kind === 'cell' && parsed.kind === 'xlsx') {
+    return <SpreadsheetView workbook={parsed.workbook} anchor={anchor} />;
+  }
+  if (anchor.kind !== 'cell' && parsed.kind === 'docx') {
+    return <WordDocumentView document={parsed.document} anchor={anchor} />;
+  }
+  return null;
+}
+
+export default function SourceViewer({ files, comparison, documentName, onDocumentChange, onClose }: SourceViewerProps) {
+  const figure = comparison && documentName ? comparison.sources[documentName] : null;
+  const file = files.find(f => f.name === documentName);
+
+  return (
+    <Sheet open={comparison !== null} onOpenChange={open => { if (!open) onClose(); }}>
+      <SheetContent side="right" className="w-full sm:max-w-[90vw] flex flex-col">
+        {comparison && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{comparison.field} · {comparison.periodLabel}</SheetTitle>
+              <SheetDescription>
+                {figure ? `${documentName} — ${figure.location}` : 'Select a document to view the figure in place.'}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="flex flex-1 min-h-0 gap-4">
+              <div className="w-64 shrink-0 space-y-2 overflow-y-auto">
+                {Object.entries(comparison.sources).map(([name, source]) => (
+                  <button
+                    key={name}
+                    type="button"
+                    disabled={!source}
+                    onClick={() => onDocumentChange(name)}
+                    className={`w-full text-left rounded-md border p-3 transition-colors ${
+                      name === documentName ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                    } ${!source ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <FileText className="h-4 w-4 text-blue-500 shrink-0" />
+                      <span className="text-sm font-medium text-gray-900 truncate">{name}</span>
+                    </div>
+                    <div className={`mt-1 text-sm ${comparison.consistent ? 'text-gray-700' : 'text-red-600 font-medium'}`}>
+                      {formatComparisonValue(comparison, name, comparison.values[name])}
+                    </div>
+                    {source && <div className="text-xs text-gray-500">{source.location}</div>}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex-1 min-w-0 overflow-auto rounded-md border border-gray-200 bg-gray-50 p-4">
+                {figure && file ? (
+                  <SourcePane key={`${documentName}|${figure.location}`} file={file} figure={figure} />
+                ) : (
+                  <p className="text-sm text-gray-600">
+                    {figure ? `The original file for ${documentName} is no longer available.` : 'This document has no figure for this field.'}
+                  </p>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
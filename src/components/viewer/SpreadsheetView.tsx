@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'react';
+import type { SourceAnchor } from '../../types/financial';
+import { columnLetters } from '../../lib/parsers/xlsx';
+import type { SheetCell, SpreadsheetModel } from '../../lib/parsers/xlsx';
+
+interface SpreadsheetViewProps {
+  workbook: SpreadsheetModel;
+  anchor: Extract<SourceAnchor, { kind: 'cell' }>;
+}
+
+// Rows shown either side of the highlighted cell; whole sheets can run to thousands of rows
+const ROW_WINDOW = 30;
+
+const displayValue = (cell: SheetCell | undefined) => {
+  if (!cell || cell.value === null) return '';
+  if (cell.value instanceof Date) return cell.value.toISOString().slice(0, 10);
+  if (typeof cell.value === 'number') return cell.value.toLocaleString();
+  return cell.value;
+};
+
+export default function SpreadsheetView({ workbook, anchor }: SpreadsheetViewProps) {
+  const highlightRef = useRef<HTMLTableCellElement>(null);
+  const sheet = workbook.sheets.find(s => s.name === anchor.sheet);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center', inline: 'center' });
+  }, [anchor]);
+
+  if (!sheet) {
+    return <p className="text-sm text-red-600">Sheet "{anchor.sheet}" was not found in this workbook.</p>;
+  }
+
+  const firstRow = Math.max(1, anchor.row - ROW_WINDOW);
+  const lastRow = anchor.row + ROW_WINDOW;
+  const rowNumbers = Array.from({ length: lastRow - firstRow + 1 }, (_, i) => firstRow + i);
+  const lastColumn = Math.max(
+    anchor.column,
+    ...rowNumbers.flatMap(r => Array.from(sheet.rows.get(r)?.keys() ?? []))
+  );
+  const columns = Array.from({ length: lastColumn }, (_, i) => i + 1);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600">Sheet <span className="font-medium">{sheet.name}</span></p>
+      <table className="text-xs border-collapse">
+        <thead>
+          <tr>
+            <th className="sticky top-0 bg-gray-100 border border-gray-200 px-2" />
+            {columns.map(column => (
+              <th key={column} className="sticky top-0 bg-gray-100 border border-gray-200 px-2 font-medium text-gray-600">
+                {columnLetters(column)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rowNumbers.map(rowNumber => (
+            <tr key={rowNumber}>
+              <td className="bg-gray-100 border border-gray-200 px-2 text-gray-600 text-right">{rowNumber}</td>
+              {columns.map(column => {
+                const cell = sheet.rows.get(rowNumber)?.get(column);
+                const highlighted = rowNumber === anchor.row && column === anchor.column;
+                return (
+                  <td
+                    key={column}
+                    ref={highlighted ? highlightRef : undefined}
+                    title={cell?.formula ? `=${cell.formula}` : undefined}
+                    className={`border border-gray-200 px-2 py-1 whitespace-nowrap ${
+                      typeof cell?.value === 'number' ? 'text-right' : ''
+                    } ${highlighted ? 'bg-amber-200 ring-2 ring-amber-500 font-semibold' : ''}`}
+                  >
+                    {displayValue(cell)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
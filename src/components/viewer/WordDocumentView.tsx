@@ -0,0 +1,71 @@
+import { useEffect, useRef } from 'react';
+import type { SourceAnchor } from '../../types/financial';
+import type { DocxBlock, DocxModel } from '../../lib/parsers/docx';
+
+interface WordDocumentViewProps {
+  document: DocxModel;
+  anchor: Extract<SourceAnchor, { kind: 'paragraph' | 'table-cell' }>;
+}
+
+const isHighlighted = (block: DocxBlock, anchor: WordDocumentViewProps['anchor'], row?: number, column?: number) => {
+  if (block.kind === 'paragraph') {
+    return anchor.kind === 'paragraph' && block.part === anchor.part && block.paragraph === anchor.paragraph;
+  }
+  return anchor.kind === 'table-cell' && block.table === anchor.table && row === anchor.row && column === anchor.column;
+};
+
+export default function WordDocumentView({ document, anchor }: WordDocumentViewProps) {
+  const highlightRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [anchor]);
+
+  const highlightClass = 'bg-amber-200 ring-2 ring-amber-500 rounded-sm';
+
+  return (
+    <div className="space-y-3 text-sm text-gray-800 max-w-3xl">
+      {document.blocks.map(block => {
+        if (block.kind === 'paragraph') {
+          if (!block.text.trim()) return null;
+          const highlighted = isHighlighted(block, anchor);
+          return (
+            <p
+              key={`${block.part}-p${block.paragraph}`}
+              ref={highlighted ? element => { highlightRef.current = element; } : undefined}
+              className={`${block.heading ? 'font-semibold text-gray-900 text-base' : ''} ${
+                block.part !== 'body' ? 'text-xs text-gray-500' : ''
+              } ${highlighted ? highlightClass : ''}`}
+            >
+              {block.text}
+            </p>
+          );
+        }
+
+        return (
+          <table key={`${block.part}-t${block.table}`} className="border-collapse text-xs">
+            <tbody>
+              {block.rows.map((cells, rowIndex) => (
+                <tr key={rowIndex}>
+                  {cells.map(cell => {
+                    const highlighted = isHighlighted(block, anchor, rowIndex + 1, cell.column);
+                    return (
+                      <td
+                        key={cell.column}
+                        colSpan={cell.span}
+                        ref={highlighted ? element => { highlightRef.current = element; } : undefined}
+                        className={`border border-gray-200 px-2 py-1 ${highlighted ? highlightClass : ''}`}
+                      >
+                        {cell.text}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+      })}
+    </div>
+  );
+}
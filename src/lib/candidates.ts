@@ -0,0 +1,113 @@
+import type { DocumentAnalysis, ExtractedFigure, PeriodSettings, StatementCategory } from '../types/financial';
+import { DEFAULT_PERIOD_SETTINGS, periodKey } from './periods';
+
+export interface CandidateFactors {
+  label: number;
+  period: number;
+  context: number;
+  scale: number;
+  currency: number;
+  text: number;
+}
+
+const FACTOR_WEIGHTS: CandidateFactors = {
+  label: 0.25,
+  period: 0.2,
+  context: 0.15,
+  scale: 0.15,
+  currency: 0.1,
+  text: 0.15
+};
+
+// Figures below this are flagged for review
+export const LOW_CONFIDENCE = 0.6;
+
+const normaliseLabel = (text: string) => text.toLowerCase().replace(/[:\s]+$/, '').replace(/\s+/g, ' ').trim();
+
+// The field's own name ("Total assets" for Total Assets) is exact; other synonyms count for more the
+// more words they spell out, so a bare "Assets" line ranks below "Total non-current assets"
+const labelExactness = (figure: ExtractedFigure) => {
+  const written = normaliseLabel(figure.matchedLabel ?? figure.label);
+  const field = normaliseLabel(figure.label);
+  if (written === field || written === `total ${field}`) return 1;
+  return Math.min(0.9, 0.5 + 0.1 * written.split(' ').length);
+};
+
+// A column header above the value dates it best; a mention in the text counts for less the further away it is
+const periodProximity = (figure: ExtractedFigure) => {
+  if (figure.periodSource === 'header') return 1;
+  if (figure.periodSource === 'nearby') return 0.9 - 0.4 * Math.min(Math.max(figure.periodDistance ?? 300, 0) / 300, 1);
+  return 0.3;
+};
+
+const isTabular = (figure: ExtractedFigure) =>
+  figure.anchor?.kind === 'cell' ||
+  figure.anchor?.kind === 'table-cell' ||
+  (figure.anchor?.kind === 'pdf' && figure.anchor.table !== undefined);
+
+// A unit written on the number or its format is certain; a section header may not reach this far, and a
+// bare amount may be in a unit nobody stated. Counts carry no unit at all.
+const scaleCertainty = (figure: ExtractedFigure) => {
+  if (figure.scaleSource === 'inline' || figure.scaleSource === 'format' || figure.currency === '') return 1;
+  return figure.scaleSource === 'section' ? 0.85 : 0.7;
+};
+
+const currencyCertainty = (figure: ExtractedFigure) => {
+  if (figure.currencySource === 'inline' || figure.currency === '') return 1;
+  return figure.currencySource === 'section' ? 0.85 : 0.6;
+};
+
+// Share of the source line that reads as clean text; OCR noise ("l,2O0", "|", "�") lowers it
+export const textQuality = (line: string) => {
+  const characters = line.replace(/\s/g, '');
+  if (characters.length === 0) return 1;
+  const noisy = characters.match(/[^\p{L}\p{N}.,:;()%&'’\-–—$€£¥₹/+]|\p{L}\p{N}\p{L}|\p{N}[OolI]\p{N}/gu) ?? [];
+  return Math.max(0, 1 - (noisy.length * 4) / characters.length);
+};
+
+export const candidateFactors = (figure: ExtractedFigure): CandidateFactors => ({
+  label: labelExactness(figure),
+  period: periodProximity(figure),
+  context: isTabular(figure) ? 1 : 0.7,
+  scale: scaleCertainty(figure),
+  currency: currencyCertainty(figure),
+  text: figure.textQuality ?? 1
+});
+
+// How far a reviewer can trust a figure, from 0 to 1: how exactly its label matched, how close its period
+// was stated, whether it sat in a table, how certain its unit and currency are, and how clean the text was
+export const figureConfidence = (figure: ExtractedFigure) => {
+  const factors = candidateFactors(figure);
+  const score = (Object.keys(FACTOR_WEIGHTS) as (keyof CandidateFactors)[])
+    .reduce((total, factor) => total + FACTOR_WEIGHTS[factor] * factors[factor], 0);
+  return Math.round(score * 100) / 100;
+};
+
+// A document may state a field for a period more than once - a summary table and the statement itself, or a
+// generic "Assets" line beside "Total assets". Every reading is kept; the most confident ranks first (ties
+// keep document order), so comparisons use rank 1 and the rest remain as alternatives.
+export const rankCandidates = (
+  figures: ExtractedFigure[],
+  periodSettings: PeriodSettings = DEFAULT_PERIOD_SETTINGS
+): ExtractedFigure[] => {
+  const scored = figures.map(figure => ({ ...figure, confidence: figureConfidence(figure) }));
+  const groups = new Map<string, ExtractedFigure[]>();
+  scored.forEach(figure => {
+    const key = `${figure.label}|${periodKey(figure.period, figure.category as StatementCategory, periodSettings)}`;
+    groups.set(key, [...(groups.get(key) ?? []), figure]);
+  });
+
+  const ranks = new Map<ExtractedFigure, number>();
+  groups.forEach(group => {
+    [...group]
+      .sort((a, b) => b.confidence - a.confidence)
+      .forEach((figure, index) => ranks.set(figure, index + 1));
+  });
+
+  return scored.map(figure => ({ ...figure, rank: ranks.get(figure) }));
+};
+
+// Readings group by period, and the fiscal year end decides which periods match, so ranks set at extraction
+// are recomputed with the settings a report is built with
+export const rankAnalyses = (analyses: DocumentAnalysis[], periodSettings: PeriodSettings): DocumentAnalysis[] =>
+  analyses.map(analysis => ({ ...analysis, extractedFigures: rankCandidates(analysis.extractedFigures, periodSettings) }));
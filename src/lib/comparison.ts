@@ -0,0 +1,325 @@
+import type {
+  AnalysisSettings,
+  ComparisonResult,
+  ConsistencyVerdict,
+  CrossCheckReport,
+  DocumentAnalysis,
+  DocumentRole,
+  ExtractedFigure,
+  FxConversion,
+  StatementCategory
+} from '../types/financial';
+import { rankAnalyses } from './candidates';
+import { DEFAULT_CURRENCY_SETTINGS, convertFigure } from './fx';
+import type { ConvertedFigure } from './fx';
+import { runIdentityChecks } from './identities';
+import { DEFAULT_PERIOD_SETTINGS, comparisonPeriodLabel, periodEndDate, periodKey } from './periods';
+import { DEFAULT_MATERIALITY, SEVERITY_LABELS, classifySeverity, compareSeverity, comparisonVariance, materialityThreshold } from './materiality';
+import { formatAmount } from './numbers';
+import { evaluateRules } from './rules';
+import { DEFAULT_TAXONOMY, fieldOrder } from './taxonomy';
+import { DEFAULT_TOLERANCE, assessConsistency, isConsistentVerdict, worstVerdict } from './tolerance';
+import type { ToleranceInput } from './tolerance';
+
+export const DOCUMENT_ROLE_LABELS: Record<DocumentRole, string> = {
+  source_of_truth: 'Source of truth',
+  derived: 'Derived',
+  draft: 'Draft'
+};
+
+export const DEFAULT_SETTINGS: AnalysisSettings = {
+  tolerance: DEFAULT_TOLERANCE,
+  currency: DEFAULT_CURRENCY_SETTINGS,
+  period: DEFAULT_PERIOD_SETTINGS,
+  taxonomy: DEFAULT_TAXONOMY,
+  rules: [],
+  materiality: DEFAULT_MATERIALITY
+};
+
+const toleranceInput = (figure: ExtractedFigure, converted: ConvertedFigure): ToleranceInput => ({
+  value: converted.value,
+  precision: figure.precision !== undefined && converted.conversion
+    ? figure.precision * converted.conversion.rate
+    : figure.precision
+});
+
+// A document's vintage: the date it states, else the end of the latest period it reports on
+export const documentDate = (analysis: DocumentAnalysis, settings: AnalysisSettings): string | null => {
+  if (analysis.documentDate) return analysis.documentDate;
+  const ends = analysis.extractedFigures.map(figure => periodEndDate(figure.period, settings.period)).sort();
+  return ends[ends.length - 1] ?? null;
+};
+
+// Values that differ only between documents of different vintages, each agreeing with the other documents
+// of its own vintage, for a period that ended before the latest of them, were restated rather than misreported
+const isRestatement = (
+  inputs: { documentDate: string | null; input: ToleranceInput }[],
+  periodEnd: string,
+  settings: AnalysisSettings
+) => {
+  const vintages = new Map<string, ToleranceInput[]>();
+  for (const { documentDate: date, input } of inputs) {
+    if (!date) return false;
+    vintages.set(date, [...(vintages.get(date) ?? []), input]);
+  }
+  const latest = Array.from(vintages.keys()).sort().pop();
+  return vintages.size > 1 &&
+    latest !== undefined && periodEnd < latest &&
+    Array.from(vintages.values()).every(group => isConsistentVerdict(assessConsistency(group, settings.tolerance)));
+};
+
+export const generateComparisons = (unranked: DocumentAnalysis[], settings: AnalysisSettings): ComparisonResult[] => {
+  const analyses = rankAnalyses(unranked, settings.period);
+  const comparisons: ComparisonResult[] = [];
+  const documentDates = Object.fromEntries(analyses.map(analysis => [analysis.fileName, documentDate(analysis, settings)]));
+  const referenceName = analyses.find(analysis => analysis.role === 'source_of_truth')?.fileName ?? null;
+  const figureKey = (figure: ExtractedFigure) =>
+    `${figure.label}|${periodKey(figure.period, figure.category as StatementCategory, settings.period)}`;
+
+  // Collect all unique field/period combinations, in the order they are first seen
+  const allKeys = new Set<string>();
+  analyses.forEach(analysis => {
+    analysis.extractedFigures.forEach(figure => allKeys.add(figureKey(figure)));
+  });
+
+  // Create a comparison for each field/period combination
+  allKeys.forEach(key => {
+    const values: { [documentName: string]: number | null } = {};
+    const sources: { [documentName: string]: ExtractedFigure | null } = {};
+    const candidates: { [documentName: string]: ExtractedFigure[] } = {};
+
+    analyses.forEach(analysis => {
+      // A document's best-ranked reading stands for it in the comparison
+      const ranked = analysis.extractedFigures
+        .filter(f => figureKey(f) === key)
+        .sort((a, b) => (a.rank ?? 1) - (b.rank ?? 1));
+      const figure = ranked[0];
+      values[analysis.fileName] = figure ? figure.value : null;
+      sources[analysis.fileName] = figure ?? null;
+      candidates[analysis.fileName] = ranked.slice(1);
+    });
+
+    // Only include comparisons where at least 2 documents have values
+    const matchedFigures = Object.values(sources).filter((f): f is ExtractedFigure => f !== null);
+    if (matchedFigures.length >= 2) {
+      const { label: field, period } = matchedFigures[0];
+      const category = matchedFigures[0].category as StatementCategory;
+      const periodEnd = periodEndDate(period, settings.period);
+      const conversions: { [documentName: string]: FxConversion | null } = {};
+      const currencies = new Set<string>();
+      const toleranceInputs: ToleranceInput[] = [];
+      const datedInputs: { documentDate: string | null; input: ToleranceInput }[] = [];
+      const documentInputs: { [documentName: string]: { currency: string; input: ToleranceInput } } = {};
+      const alternatives: { [documentName: string]: ExtractedFigure[] } = {};
+
+      Object.entries(sources).forEach(([documentName, figure]) => {
+        if (!figure) {
+          conversions[documentName] = null;
+          return;
+        }
+        const converted = convertFigure(figure, settings.currency, periodEnd);
+        values[documentName] = converted.value;
+        conversions[documentName] = converted.conversion;
+        currencies.add(converted.currency);
+        toleranceInputs.push(toleranceInput(figure, converted));
+        datedInputs.push({ documentDate: documentDates[documentName], input: toleranceInput(figure, converted) });
+        documentInputs[documentName] = { currency: converted.currency, input: toleranceInput(figure, converted) };
+
+        // Other readings in the same document that disagree with the one compared make it ambiguous
+        const competing = candidates[documentName].filter(candidate => {
+          const other = convertFigure(candidate, settings.currency, periodEnd);
+          return other.currency !== converted.currency || !isConsistentVerdict(
+            assessConsistency([toleranceInput(figure, converted), toleranceInput(candidate, other)], settings.tolerance)
+          );
+        });
+        if (competing.length > 0) alternatives[documentName] = competing;
+      });
+
+      // With a source of truth each document only has to agree with it, not with its peers
+      const referenceDocument = referenceName && sources[referenceName] ? referenceName : null;
+      const documentVerdicts: { [documentName: string]: ConsistencyVerdict } = {};
+      if (referenceDocument) {
+        const reference = documentInputs[referenceDocument];
+        Object.entries(documentInputs)
+          .filter(([documentName]) => documentName !== referenceDocument)
+          .forEach(([documentName, { currency, input }]) => {
+            documentVerdicts[documentName] = currency !== reference.currency
+              ? 'currency_mismatch'
+              : assessConsistency([reference.input, input], settings.tolerance);
+          });
+      }
+
+      // Amounts in different currencies are never equated without an FX rate
+      let verdict: ConsistencyVerdict = currencies.size > 1
+        ? 'currency_mismatch'
+        : referenceDocument
+          ? worstVerdict(Object.values(documentVerdicts))
+          : assessConsistency(toleranceInputs, settings.tolerance);
+      if (verdict === 'material_discrepancy' && isRestatement(datedInputs, periodEnd, settings)) {
+        verdict = 'restatement';
+      }
+
+      const comparison: ComparisonResult = {
+        period,
+        periodLabel: comparisonPeriodLabel(period, category, settings.period),
+        periodEnd,
+        field,
+        values,
+        sources,
+        currency: currencies.size === 1 ? Array.from(currencies)[0] : null,
+        conversions,
+        consistent: isConsistentVerdict(verdict),
+        verdict,
+        category,
+        alternatives,
+        documentDates: Object.fromEntries(Object.keys(sources).map(name => [name, documentDates[name]])),
+        referenceDocument,
+        documentVerdicts,
+        variance: null,
+        materiality: null,
+        severity: null
+      };
+      const materiality = materialityThreshold(comparison, analyses, settings);
+      comparisons.push({
+        ...comparison,
+        variance: comparisonVariance(comparison),
+        materiality,
+        severity: classifySeverity(comparison, materiality, settings)
+      });
+    }
+  });
+
+  // Fields follow the taxonomy's order; periods keep the order they were first seen in
+  return comparisons.sort((a, b) => fieldOrder(settings.taxonomy, a.field) - fieldOrder(settings.taxonomy, b.field));
+};
+
+export const formatComparisonValue = (comparison: ComparisonResult, documentName: string, value: number | null) => {
+  if (value === null) return 'N/A';
+  const currency = comparison.currency ?? comparison.sources[documentName]?.currency;
+  return formatAmount(value, currency);
+};
+
+// "deck.pdf overstates Revenue by 2.1% vs audited.pdf (corrected value $1,000)"
+export const describeDeviation = (comparison: ComparisonResult, documentName: string) => {
+  const reference = comparison.referenceDocument;
+  const value = comparison.values[documentName];
+  const referenceValue = reference ? comparison.values[reference] : null;
+  if (!reference || value === null || referenceValue === null || referenceValue === undefined) return null;
+
+  const difference = value - referenceValue;
+  const amount = referenceValue !== 0
+    ? `${Math.abs((difference / Math.abs(referenceValue)) * 100).toFixed(1)}%`
+    : formatComparisonValue(comparison, documentName, Math.abs(difference));
+  return `${documentName} ${difference > 0 ? 'overstates' : 'understates'} ${comparison.field} by ${amount} vs ${reference} (corrected value ${formatComparisonValue(comparison, reference, referenceValue)})`;
+};
+
+export interface RestatementEntry {
+  documentName: string;
+  documentDate: string;
+  value: number;
+  change: number | null;
+}
+
+// Each document's value in vintage order, with the change from the previous vintage
+export const restatementTimeline = (comparison: ComparisonResult): RestatementEntry[] => {
+  const entries = Object.entries(comparison.values)
+    .filter((entry): entry is [string, number] => entry[1] !== null)
+    .map(([documentName, value]) => ({ documentName, documentDate: comparison.documentDates[documentName] ?? '', value }))
+    .sort((a, b) => a.documentDate.localeCompare(b.documentDate));
+  return entries.map((entry, index) => ({
+    ...entry,
+    change: index > 0 && entries[index - 1].documentDate !== entry.documentDate ? entry.value - entries[index - 1].value : null
+  }));
+};
+
+// A comparison is only as trustworthy as its least confident figure
+export const comparisonConfidence = (comparison: ComparisonResult) =>
+  Math.min(...Object.values(comparison.sources)
+    .filter((f): f is ExtractedFigure => f !== null)
+    .map(f => f.confidence));
+
+export const buildCrossCheckReport = (unranked: DocumentAnalysis[], settings: AnalysisSettings): CrossCheckReport => {
+  const analyses = rankAnalyses(unranked, settings.period);
+  const comparisons = generateComparisons(analyses, settings);
+
+  const totalComparisons = comparisons.length;
+  const consistentCount = comparisons.filter(c => c.consistent).length;
+  // Restated figures are reported on their own rather than as discrepancies
+  const discrepancies = comparisons.filter(c => !c.consistent && c.verdict !== 'restatement');
+  const restatedCount = comparisons.filter(c => !c.consistent && c.verdict === 'restatement').length;
+  const severityCounts = { trivial: 0, moderate: 0, material: 0 };
+  discrepancies.forEach(c => {
+    if (c.severity) severityCounts[c.severity]++;
+  });
+
+  // Most severe first, then largest variance
+  const keyDiscrepancies = [...discrepancies]
+    .sort((a, b) => compareSeverity(a.severity, b.severity) || (b.variance?.absolute ?? 0) - (a.variance?.absolute ?? 0))
+    .slice(0, 5)
+    .map(c => {
+      const severity = c.severity ? `${SEVERITY_LABELS[c.severity]}: ` : '';
+      if (c.referenceDocument && c.verdict !== 'currency_mismatch') {
+        return severity + Object.entries(c.documentVerdicts)
+          .filter(([, verdict]) => !isConsistentVerdict(verdict))
+          .map(([doc]) => `${describeDeviation(c, doc)} for ${c.periodLabel}`)
+          .join('; ');
+      }
+
+      const docValues = Object.entries(c.values)
+        .filter((entry): entry is [string, number] => entry[1] !== null)
+        .map(([doc, value]) => `${doc}: ${formatComparisonValue(c, doc, value)}`)
+        .join(', ');
+      return c.verdict === 'currency_mismatch'
+        ? `${severity}${c.field} for ${c.periodLabel} is reported in different currencies with no FX rate (${docValues})`
+        : `${severity}${c.field} for ${c.periodLabel} differs (${docValues})`;
+    });
+
+  // One document giving two different values for the same line is an internal inconsistency in itself
+  const ambiguities = comparisons.flatMap(c =>
+    Object.entries(c.alternatives).map(([doc, alternatives]) => {
+      const readings = [c.sources[doc], ...alternatives]
+        .filter((f): f is ExtractedFigure => f !== null)
+        .map(f => `${formatAmount(f.value, f.currency)} at ${f.location}`)
+        .join(' vs ');
+      return `${doc} states ${c.field} for ${c.periodLabel} more than once (${readings})`;
+    })
+  );
+
+  const restatements = comparisons
+    .filter(c => c.verdict === 'restatement')
+    .map(c => `${c.field} for ${c.periodLabel} was restated: ${restatementTimeline(c)
+      .map(entry => `${formatComparisonValue(c, entry.documentName, entry.value)} (${entry.documentName}, ${entry.documentDate})`)
+      .join(' → ')}`);
+
+  const internalChecks = runIdentityChecks(analyses, settings);
+  const internalBreaks = internalChecks
+    .filter(check => !check.passed)
+    .map(check => `${check.documentName}: ${check.expression} does not hold for ${check.periodLabel} (gap ${formatAmount(check.gap, check.currency)})`);
+
+  const ruleResults = evaluateRules(analyses, settings.rules, settings);
+
+  const consistentSections = Array.from(new Set(
+    comparisons
+      .filter(c => c.consistent)
+      .map(c => c.category)
+  ));
+
+  return {
+    documentAnalyses: analyses,
+    comparisons,
+    internalChecks,
+    ruleResults,
+    summary: {
+      totalComparisons,
+      consistentCount,
+      discrepancyCount: discrepancies.length,
+      restatedCount,
+      severityCounts,
+      keyDiscrepancies,
+      ambiguities,
+      restatements,
+      internalBreaks,
+      consistentSections
+    }
+  };
+};
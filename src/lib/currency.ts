@@ -0,0 +1,118 @@
+import type { CurrencySource } from '../types/financial';
+
+export const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'INR', 'CNY', 'SEK', 'NOK', 'DKK'];
+
+const DOLLAR_CURRENCIES = ['USD', 'CAD', 'AUD'];
+
+const SYMBOLS: { [symbol: string]: string } = {
+  'US$': 'USD',
+  'C$': 'CAD',
+  'CA$': 'CAD',
+  'A$': 'AUD',
+  'AU$': 'AUD',
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR'
+};
+
+const CURRENCY_NAMES: { pattern: RegExp; code: string }[] = [
+  { pattern: /canadian dollars?/i, code: 'CAD' },
+  { pattern: /australian dollars?/i, code: 'AUD' },
+  { pattern: /dollars?/i, code: 'USD' },
+  { pattern: /euros?/i, code: 'EUR' },
+  { pattern: /pounds?|sterling/i, code: 'GBP' },
+  { pattern: /yen/i, code: 'JPY' },
+  { pattern: /swiss francs?/i, code: 'CHF' },
+  { pattern: /rupees?/i, code: 'INR' }
+];
+
+const escapeSymbol = (symbol: string) => symbol.replace(/\$/g, '\\$');
+const SYMBOL_ALTERNATION = Object.keys(SYMBOLS).map(escapeSymbol).join('|');
+const CODE_ALTERNATION = CURRENCY_CODES.join('|');
+const NAME_ALTERNATION = '(?:US |U\\.S\\. |Canadian |Australian )?dollars?|euros?|pounds(?: sterling)?|sterling|yen|swiss francs?|rupees?';
+
+// Currency written against a number: "$12.4m", "EUR 1.234", "1.234 €"
+export const CURRENCY_PREFIX_PATTERN = `(?<currency>${SYMBOL_ALTERNATION}|(?:${CODE_ALTERNATION})(?![A-Za-z]))`;
+export const CURRENCY_SUFFIX_PATTERN = `(?<currencySuffix>[€£¥₹]|(?:${CODE_ALTERNATION})(?![A-Za-z]))`;
+
+// Headers that state the currency for what follows: "expressed in euros", "(in thousands of
+// Canadian dollars)", "(€m)", "Currency: GBP"
+const CURRENCY_DECLARATION_PATTERNS = [
+  new RegExp(`\\b(?:expressed|stated|presented|reported|denominated|amounts?|figures?)\\s+(?:are\\s+)?in\\s+(?:(?:thousands|millions|billions)\\s+of\\s+)?(?<cur>${CODE_ALTERNATION}|${NAME_ALTERNATION})\\b`, 'gi'),
+  new RegExp(`\\bin\\s+(?:thousands|millions|billions)\\s+of\\s+(?<cur>${CODE_ALTERNATION}|${NAME_ALTERNATION})\\b`, 'gi'),
+  new RegExp(`\\(\\s*(?:in\\s+)?(?<cur>${SYMBOL_ALTERNATION}|(?:${CODE_ALTERNATION})(?![A-Za-z]))\\s*(?:'?000s?|mm|mn|m|bn|thousands|millions|billions)?\\s*\\)`, 'g'),
+  new RegExp(`\\bcurrency:\\s*(?<cur>${CODE_ALTERNATION})\\b`, 'gi')
+];
+
+export interface CurrencyDeclaration {
+  index: number;
+  currency: string;
+  text: string;
+}
+
+export const currencyCode = (token: string | undefined): string | undefined => {
+  if (!token) return undefined;
+  const trimmed = token.trim();
+  if (SYMBOLS[trimmed]) return SYMBOLS[trimmed];
+  if (CURRENCY_CODES.includes(trimmed.toUpperCase())) return trimmed.toUpperCase();
+  return CURRENCY_NAMES.find(({ pattern }) => pattern.test(trimmed))?.code;
+};
+
+export const findCurrencyDeclarations = (text: string): CurrencyDeclaration[] => {
+  const declarations: CurrencyDeclaration[] = [];
+
+  CURRENCY_DECLARATION_PATTERNS.forEach(pattern => {
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      const currency = currencyCode(match.groups?.cur);
+      if (currency) {
+        declarations.push({ index: match.index, currency, text: match[0].trim() });
+      }
+    }
+  });
+
+  return declarations.sort((a, b) => a.index - b.index);
+};
+
+export const currencyAt = (declarations: CurrencyDeclaration[], index: number): CurrencyDeclaration | undefined => {
+  let current: CurrencyDeclaration | undefined;
+  for (const declaration of declarations) {
+    if (declaration.index > index) break;
+    current = declaration;
+  }
+  return current;
+};
+
+// Most frequently declared currency, used for figures that appear before any header
+export const dominantCurrency = (declarations: CurrencyDeclaration[]): string | undefined => {
+  const counts = new Map<string, number>();
+  declarations.forEach(d => counts.set(d.currency, (counts.get(d.currency) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+export interface ResolvedCurrency {
+  currency: string;
+  source: CurrencySource;
+}
+
+// Counts such as headcount or shares outstanding carry no currency and are never converted
+export const UNITLESS: ResolvedCurrency = { currency: '', source: 'assumed' };
+
+export const resolveCurrency = (
+  inlineToken: string | undefined,
+  sectionCurrency: string | undefined,
+  documentCurrency: string | undefined,
+  defaultCurrency: string
+): ResolvedCurrency => {
+  const inline = currencyCode(inlineToken);
+
+  // A bare "$" inside a document declared in Canadian or Australian dollars means that dollar
+  if (inline && !(inlineToken?.trim() === '$' && sectionCurrency && DOLLAR_CURRENCIES.includes(sectionCurrency))) {
+    return { currency: inline, source: 'inline' };
+  }
+  if (sectionCurrency) return { currency: sectionCurrency, source: 'section' };
+  if (documentCurrency) return { currency: documentCurrency, source: 'section' };
+  return { currency: defaultCurrency, source: 'assumed' };
+};
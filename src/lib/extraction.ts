@@ -0,0 +1,130 @@
+import type { ExtractedFigure, FieldTaxonomy, NumberLocale, SourceAnchor } from '../types/financial';
+import { rankCandidates, textQuality } from './candidates';
+import { detectNumberLocale, parseAmountMatch, valuePattern } from './numbers';
+import { UNITLESS, currencyAt, dominantCurrency, findCurrencyDeclarations, resolveCurrency } from './currency';
+import { defaultPeriod, findPeriodMentions, mentionDistance, nearestPeriodMention } from './periods';
+import { applyScale, findScaleDeclarations, scaleAt, scaleMultiplier, statedPrecision } from './scale';
+import { DEFAULT_TAXONOMY, applyExpectedSign, fieldLabelPattern, isExcluded, phrasesOf } from './taxonomy';
+
+export interface SourceLocation {
+  location: string;
+  anchor?: SourceAnchor;
+}
+
+export interface ExtractionOptions {
+  numberLocale?: NumberLocale;
+  defaultCurrency?: string;
+  taxonomy?: FieldTaxonomy;
+  // Maps a matched span back to where it sits in the parsed file; null skips text a structured reader already handled
+  locate?: (index: number, length: number) => SourceLocation | null | undefined;
+}
+
+// Exclusions qualify the label they precede ("Deferred revenue"), so only the few words before it are checked.
+// Flattened PDF text has no line breaks, so the window also stops at the previous sentence, clause or number.
+const EXCLUSION_WINDOW = 60;
+
+const labelWindow = (text: string, matchIndex: number, matchEnd: number) => {
+  const before = text.slice(Math.max(0, matchIndex - EXCLUSION_WINDOW), matchIndex);
+  const boundary = before.search(/[.;:!?|\t\n\d][^.;:!?|\t\n\d]*$/);
+  return before.slice(boundary + 1) + text.slice(matchIndex, matchEnd);
+};
+
+// Plain text carries no page or cell, so without a locate callback the source position is not guessed
+export const UNKNOWN_LOCATION = 'Location unknown';
+
+export const extractFinancialFigures = (
+  text: string,
+  fileName: string,
+  options: ExtractionOptions = {}
+): ExtractedFigure[] => {
+  const numberLocale = options.numberLocale ?? detectNumberLocale(text);
+  const scaleDeclarations = findScaleDeclarations(text);
+  const currencyDeclarations = findCurrencyDeclarations(text);
+  const documentCurrency = dominantCurrency(currencyDeclarations);
+  const valueSource = valuePattern(numberLocale);
+
+  // Figures with no period nearby fall back to the first period the document mentions
+  const periodMentions = findPeriodMentions(text);
+  const fallbackPeriod = periodMentions[0]?.period ?? defaultPeriod();
+
+  // Every field's label-and-value matches, keyed by where the value ends
+  const matches = new Map<number, { index: number; figure: ExtractedFigure }>();
+
+  // Extract figures for each taxonomy field
+  (options.taxonomy ?? DEFAULT_TAXONOMY).fields
+    .filter(f => f.field.trim() && phrasesOf(f.synonyms).length > 0)
+    .forEach(taxonomyField => {
+      const { category, field } = taxonomyField;
+      const pattern = new RegExp(`${fieldLabelPattern(taxonomyField)}[:\\s]+${valueSource}`, 'gi');
+      let match;
+      while ((match = pattern.exec(text)) !== null) {
+        const amount = match.groups ? parseAmountMatch(match.groups, numberLocale) : null;
+
+        if (amount && amount.value !== 0) {
+          const matchIndex = match.index;
+
+          // "Deferred revenue: 120" is not revenue
+          if (isExcluded(taxonomyField, labelWindow(text, matchIndex, matchIndex + match[0].length))) continue;
+          const lineStart = text.lastIndexOf('\n', matchIndex) + 1;
+          const lineEnd = text.indexOf('\n', matchIndex + match[0].length);
+
+          const periodMention = nearestPeriodMention(periodMentions, matchIndex, match[0].length);
+
+          // An inline suffix ("$12.4m") wins over a section header ("in thousands"), which only scales amounts
+          const inlineScale = amount.scaleToken;
+          const sectionScale = inlineScale || taxonomyField.unit === 'count' ? undefined : scaleAt(scaleDeclarations, matchIndex);
+          const multiplier = inlineScale ? scaleMultiplier(inlineScale) : sectionScale?.multiplier ?? 1;
+
+          const sectionCurrency = currencyAt(currencyDeclarations, matchIndex);
+          const { currency, source: currencySource } = taxonomyField.unit === 'count' ? UNITLESS : resolveCurrency(
+            amount.currencyToken,
+            sectionCurrency?.currency,
+            documentCurrency,
+            options.defaultCurrency ?? 'USD'
+          );
+
+          const located = options.locate?.(matchIndex, match[0].length);
+          if (located === null) continue;
+
+          // One number can only be one figure: when several labels reach the same value the longest,
+          // most specific label wins ("Total current assets" over a generic "assets")
+          const valueEnd = matchIndex + match[0].length;
+          const previous = matches.get(valueEnd);
+          if (previous && previous.index <= matchIndex) continue;
+
+          matches.set(valueEnd, {
+            index: matchIndex,
+            figure: {
+              category,
+              period: periodMention?.period ?? fallbackPeriod,
+              periodEvidence: periodMention?.text,
+              periodSource: periodMention ? 'nearby' : 'document',
+              periodDistance: periodMention && mentionDistance(periodMention, matchIndex, match[0].length),
+              value: applyExpectedSign(applyScale(amount.value, multiplier), taxonomyField.expectedSign),
+              label: field,
+              matchedLabel: match.groups?.label,
+              documentName: fileName,
+              location: located?.location ?? UNKNOWN_LOCATION,
+              anchor: located?.anchor,
+              textQuality: textQuality(text.slice(lineStart, lineEnd === -1 ? undefined : lineEnd)),
+              confidence: 0, // Set by rankCandidates
+              rawText: amount.rawText,
+              multiplier,
+              precision: statedPrecision(amount.numberText, multiplier),
+              scaleSource: inlineScale ? 'inline' : sectionScale ? 'section' : 'none',
+              scaleEvidence: inlineScale ? undefined : sectionScale?.text,
+              currency,
+              currencySource,
+              currencyEvidence: currencySource === 'section' ? sectionCurrency?.text : undefined
+            }
+          });
+        }
+      }
+    });
+
+  const figures = Array.from(matches.values())
+    .sort((a, b) => a.index - b.index)
+    .map(({ figure }) => figure);
+
+  return rankCandidates(figures);
+};
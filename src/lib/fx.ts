@@ -0,0 +1,78 @@
+import type { CurrencySettings, ExtractedFigure, FxConversion, FxRate } from '../types/financial';
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  reportingCurrency: null,
+  fxRates: []
+};
+
+// Expects "date,from,to,rate" rows, e.g. "2024-12-31,EUR,USD,1.0389". A header row is optional.
+export const parseFxRatesCsv = (content: string): FxRate[] => {
+  const rates: FxRate[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const cells = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+    if (cells.length === 1 && cells[0] === '') return;
+    if (index === 0 && !/^\d{4}-\d{2}-\d{2}$/.test(cells[0])) return;
+
+    const [date, from, to, rateText] = cells;
+    const rate = parseFloat(rateText);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^[A-Za-z]{3}$/.test(from) || !/^[A-Za-z]{3}$/.test(to) || !(rate > 0)) {
+      throw new Error(`Invalid FX rate on line ${index + 1}: expected date,from,to,rate (e.g. 2024-12-31,EUR,USD,1.0389)`);
+    }
+
+    rates.push({ date, from: from.toUpperCase(), to: to.toUpperCase(), rate });
+  });
+
+  return rates;
+};
+
+// Latest rate on or before the period end; falls back to the earliest later rate. Inverse
+// quotes (USD->EUR when EUR->USD is needed) are used when no direct quote exists.
+export const findRate = (rates: FxRate[], from: string, to: string, asOf: string): { rate: number; date: string } | null => {
+  const candidates = rates
+    .map(r => {
+      if (r.from === from && r.to === to) return { rate: r.rate, date: r.date };
+      if (r.from === to && r.to === from) return { rate: 1 / r.rate, date: r.date };
+      return null;
+    })
+    .filter((r): r is { rate: number; date: string } => r !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (candidates.length === 0) return null;
+
+  const onOrBefore = candidates.filter(c => c.date <= asOf);
+  return onOrBefore.length > 0 ? onOrBefore[onOrBefore.length - 1] : candidates[0];
+};
+
+export interface ConvertedFigure {
+  value: number;
+  currency: string;
+  conversion: FxConversion | null;
+}
+
+export const convertFigure = (figure: ExtractedFigure, settings: CurrencySettings, asOf: string): ConvertedFigure => {
+  const target = settings.reportingCurrency;
+  if (!target || !figure.currency || figure.currency === target) {
+    return { value: figure.value, currency: figure.currency, conversion: null };
+  }
+
+  const found = findRate(settings.fxRates, figure.currency, target, asOf);
+  if (!found) {
+    return { value: figure.value, currency: figure.currency, conversion: null };
+  }
+
+  return {
+    value: Math.round(figure.value * found.rate * 100) / 100,
+    currency: target,
+    conversion: {
+      from: figure.currency,
+      to: target,
+      rate: found.rate,
+      rateDate: found.date,
+      originalValue: figure.value
+    }
+  };
+};
+
+export const describeConversion = (conversion: FxConversion) =>
+  `${conversion.from}→${conversion.to} @ ${Number(conversion.rate.toFixed(6))} (${conversion.rateDate})`;
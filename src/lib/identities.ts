@@ -0,0 +1,115 @@
+import type {
+  AnalysisSettings,
+  ConsistencyVerdict,
+  DocumentAnalysis,
+  ExtractedFigure,
+  IdentityCheckResult,
+  StatementCategory
+} from '../types/financial';
+import { comparisonPeriodLabel, periodKey } from './periods';
+import { assessConsistency, isConsistentVerdict } from './tolerance';
+
+export interface IdentityTerm {
+  field: string;
+  sign: 1 | -1;
+}
+
+// `total` equals (or, for bounds, is at least) the signed sum of `parts`
+export interface AccountingIdentity {
+  name: string;
+  category: StatementCategory;
+  total: string;
+  relation: 'equals' | 'at_least';
+  parts: IdentityTerm[];
+}
+
+const plus = (field: string): IdentityTerm => ({ field, sign: 1 });
+const minus = (field: string): IdentityTerm => ({ field, sign: -1 });
+
+// Field names follow the default taxonomy; expense lines are stored positive, so they are subtracted here
+export const ACCOUNTING_IDENTITIES: AccountingIdentity[] = [
+  { name: 'Gross profit', category: 'Income Statement', total: 'Gross Profit', relation: 'equals', parts: [plus('Revenue'), minus('Cost of Sales')] },
+  { name: 'EBITDA build-up', category: 'Income Statement', total: 'EBITDA', relation: 'equals', parts: [plus('Operating Income'), plus('Depreciation & Amortisation')] },
+  { name: 'EBITDA covers net income', category: 'Income Statement', total: 'EBITDA', relation: 'at_least', parts: [plus('Net Income')] },
+  { name: 'Revenue covers gross profit', category: 'Income Statement', total: 'Revenue', relation: 'at_least', parts: [plus('Gross Profit')] },
+  { name: 'Balance sheet balances', category: 'Balance Sheet', total: 'Total Assets', relation: 'equals', parts: [plus('Total Liabilities'), plus('Equity')] },
+  { name: 'Total assets', category: 'Balance Sheet', total: 'Total Assets', relation: 'equals', parts: [plus('Current Assets'), plus('Non-current Assets')] },
+  { name: 'Total liabilities', category: 'Balance Sheet', total: 'Total Liabilities', relation: 'equals', parts: [plus('Current Liabilities'), plus('Non-current Liabilities')] },
+  { name: 'Net debt', category: 'Balance Sheet', total: 'Net Debt', relation: 'equals', parts: [plus('Total Debt'), minus('Cash and Equivalents')] },
+  { name: 'Cash flow reconciles', category: 'Cash Flow Statement', total: 'Net Change in Cash', relation: 'equals', parts: [plus('Operating Cash Flow'), plus('Investing Cash Flow'), plus('Financing Cash Flow')] },
+  { name: 'Free cash flow', category: 'Cash Flow Statement', total: 'Free Cash Flow', relation: 'equals', parts: [plus('Operating Cash Flow'), minus('Capital Expenditure')] }
+];
+
+export const describeIdentity = (identity: AccountingIdentity) =>
+  `${identity.total} ${identity.relation === 'equals' ? '=' : '≥'} ${identity.parts
+    .map((part, index) => `${index === 0 ? (part.sign < 0 ? '−' : '') : part.sign < 0 ? '− ' : '+ '}${part.field}`)
+    .join(' ')}`;
+
+// A sum of rounded figures may be off by up to half a unit of each figure's stated precision. Precision is
+// not inferred from trailing zeros here: "700 + 310" against "1,000" is a break, not rounding.
+const roundingAllowance = (figures: ExtractedFigure[]) =>
+  figures.reduce((total, figure) => total + (figure.precision ?? 0) / 2, 0);
+
+export const runIdentityChecks = (
+  analyses: DocumentAnalysis[],
+  settings: AnalysisSettings,
+  identities: AccountingIdentity[] = ACCOUNTING_IDENTITIES
+): IdentityCheckResult[] => {
+  const results: IdentityCheckResult[] = [];
+
+  analyses.forEach(analysis => {
+    // Each document is checked on the readings it is compared on, one set per period
+    const periods = new Map<string, Map<string, ExtractedFigure>>();
+    analysis.extractedFigures
+      .filter(figure => (figure.rank ?? 1) === 1)
+      .forEach(figure => {
+        const key = periodKey(figure.period, figure.category as StatementCategory, settings.period);
+        const fields = periods.get(key) ?? new Map<string, ExtractedFigure>();
+        if (!fields.has(figure.label)) fields.set(figure.label, figure);
+        periods.set(key, fields);
+      });
+
+    periods.forEach(fields => {
+      identities.forEach(identity => {
+        const total = fields.get(identity.total);
+        const parts = identity.parts.map(part => fields.get(part.field));
+        if (!total || parts.some(part => !part)) return;
+
+        const operands = [total, ...(parts as ExtractedFigure[])];
+        // Amounts in different currencies cannot be added up without converting them first
+        if (new Set(operands.map(figure => figure.currency)).size > 1) return;
+
+        const left = total.value;
+        const right = identity.parts.reduce((sum, part, index) => sum + part.sign * parts[index]!.value, 0);
+        const gap = left - right;
+
+        let verdict: ConsistencyVerdict;
+        if (gap === 0 || (identity.relation === 'at_least' && gap > 0)) {
+          verdict = 'exact';
+        } else if (settings.tolerance.roundingAware && Math.abs(gap) <= roundingAllowance(operands)) {
+          verdict = 'rounding_difference';
+        } else {
+          verdict = assessConsistency([{ value: left }, { value: right }], { ...settings.tolerance, roundingAware: false });
+        }
+
+        results.push({
+          documentName: analysis.fileName,
+          identity: identity.name,
+          expression: describeIdentity(identity),
+          category: identity.category,
+          period: total.period,
+          periodLabel: comparisonPeriodLabel(total.period, identity.category, settings.period),
+          left,
+          right,
+          gap,
+          currency: total.currency,
+          verdict,
+          passed: isConsistentVerdict(verdict),
+          operands: operands.map(figure => ({ field: figure.label, value: figure.value, location: figure.location }))
+        });
+      });
+    });
+  });
+
+  return results;
+};
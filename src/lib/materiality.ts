@@ -0,0 +1,107 @@
+import type {
+  AnalysisSettings,
+  ComparisonResult,
+  DocumentAnalysis,
+  ExtractedFigure,
+  MaterialityBasis,
+  MaterialitySettings,
+  Severity,
+  StatementCategory,
+  Variance
+} from '../types/financial';
+import { convertFigure } from './fx';
+import { periodKey, periodMonths } from './periods';
+
+// Planning materiality of 1% of revenue, with differences under 5% of it clearly trivial
+export const DEFAULT_MATERIALITY: MaterialitySettings = {
+  basis: 'revenue',
+  amount: 0,
+  percent: 1,
+  trivialPercent: 5,
+  fieldThresholds: {}
+};
+
+export const MATERIALITY_BASIS_LABELS: Record<MaterialityBasis, string> = {
+  amount: 'Fixed amount',
+  revenue: '% of revenue',
+  total_assets: '% of total assets'
+};
+
+export const SEVERITY_LABELS: Record<Severity, string> = {
+  trivial: 'Trivial',
+  moderate: 'Moderate',
+  material: 'Material'
+};
+
+const SEVERITY_ORDER: Severity[] = ['trivial', 'moderate', 'material'];
+
+export const compareSeverity = (a: Severity | null, b: Severity | null) =>
+  SEVERITY_ORDER.indexOf(b ?? 'trivial') - SEVERITY_ORDER.indexOf(a ?? 'trivial');
+
+const BASIS_FIELDS: Record<Exclude<MaterialityBasis, 'amount'>, string> = {
+  revenue: 'Revenue',
+  total_assets: 'Total Assets'
+};
+
+// Spread between the values compared, measured from the source of truth when there is one and
+// otherwise from the largest value
+export const comparisonVariance = (comparison: ComparisonResult): Variance | null => {
+  if (comparison.currency === null) return null;
+  const values = Object.values(comparison.values).filter((value): value is number => value !== null);
+  if (values.length < 2) return null;
+
+  const reference = comparison.referenceDocument ? comparison.values[comparison.referenceDocument] : null;
+  const absolute = reference !== null && reference !== undefined
+    ? Math.max(...values.map(value => Math.abs(value - reference)))
+    : Math.max(...values) - Math.min(...values);
+  const base = reference ?? Math.max(...values.map(Math.abs));
+  return { absolute, percent: base !== 0 ? (absolute / Math.abs(base)) * 100 : null };
+};
+
+// The basis must cover the comparison's period, not merely end on the same day: quarterly revenue does not set
+// materiality for an annual comparison. A balance sheet basis is the position at that date; an income basis
+// for a balance sheet comparison is the twelve months to it.
+const coversComparisonPeriod = (figure: ExtractedFigure, comparison: ComparisonResult, settings: AnalysisSettings) => {
+  const key = periodKey(figure.period, figure.category as StatementCategory, settings.period);
+  if (key.startsWith('at:')) return key === `at:${comparison.periodEnd}`;
+  const position = comparison.category === 'Balance Sheet' || comparison.period.type === 'point_in_time';
+  return key === `${position ? 12 : periodMonths(comparison.period, settings.period)}m:${comparison.periodEnd}`;
+};
+
+// Materiality for one comparison: a per-field threshold if set, else the overall one. A percentage basis
+// is read from the same period's revenue or total assets, in the source of truth if it states them.
+export const materialityThreshold = (
+  comparison: ComparisonResult,
+  analyses: DocumentAnalysis[],
+  settings: AnalysisSettings
+): number | null => {
+  const { materiality } = settings;
+  const fieldThreshold = materiality.fieldThresholds[comparison.field];
+  if (fieldThreshold > 0) return fieldThreshold;
+  if (materiality.basis === 'amount') return materiality.amount > 0 ? materiality.amount : null;
+
+  const basisField = BASIS_FIELDS[materiality.basis];
+  const ordered = [...analyses].sort((a, b) => Number(b.role === 'source_of_truth') - Number(a.role === 'source_of_truth'));
+  for (const analysis of ordered) {
+    const figure = analysis.extractedFigures.find(f =>
+      f.label === basisField && (f.rank ?? 1) === 1 && coversComparisonPeriod(f, comparison, settings));
+    if (figure) {
+      const base = convertFigure(figure, settings.currency, comparison.periodEnd).value;
+      return (Math.abs(base) * materiality.percent) / 100;
+    }
+  }
+  return null;
+};
+
+// Only discrepancies are graded. Without a threshold to measure against, a discrepancy is treated as material.
+export const classifySeverity = (
+  comparison: ComparisonResult,
+  threshold: number | null,
+  settings: AnalysisSettings
+): Severity | null => {
+  if (comparison.consistent) return null;
+  const variance = comparisonVariance(comparison);
+  if (!variance || threshold === null) return 'material';
+  if (variance.absolute >= threshold) return 'material';
+  return variance.absolute < (threshold * settings.materiality.trivialPercent) / 100 ? 'trivial' : 'moderate';
+};
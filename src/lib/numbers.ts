@@ -0,0 +1,118 @@
+import type { NumberLocale } from '../types/financial';
+import { CURRENCY_PREFIX_PATTERN, CURRENCY_SUFFIX_PATTERN } from './currency';
+import { INLINE_SCALE_PATTERN } from './scale';
+
+const MINUS_SIGNS = '\\-\\u2212';
+
+// Sign markers must touch the number (or its currency) so that "Revenue - 12,400" used as a
+// separator is not read as a negative figure.
+const PREFIX_PATTERN = `(?<prefix>[(${MINUS_SIGNS}]{0,2}(?:${CURRENCY_PREFIX_PATTERN}\\s?)?[(${MINUS_SIGNS}]{0,2})`;
+const SUFFIX_PATTERN = `(?<suffix>\\)?(?:-(?!\\d)|\\u2212)?)(?:\\s?(?<marker>CR|DR)\\b)?`;
+
+const NUMBER_PATTERNS: Record<NumberLocale, string> = {
+  'en-US': '[\\d,]+(?:\\.\\d+)?',
+  'en-IN': '[\\d,]+(?:\\.\\d+)?',
+  'de-DE': '[\\d.]+(?:,\\d+)?',
+  'fr-FR': '\\d{1,3}(?:[ \\u00a0\\u202f]\\d{3})+(?:,\\d+)?|\\d+(?:,\\d+)?'
+};
+
+export const NUMBER_LOCALE_LABELS: Record<NumberLocale, string> = {
+  'en-US': '1,234,567.89',
+  'en-IN': '12,34,567.89',
+  'de-DE': '1.234.567,89',
+  'fr-FR': '1 234 567,89'
+};
+
+// Separator layouts that only make sense in one convention, e.g. "1.234.567" or "12,34,567".
+const LOCALE_EVIDENCE: { locale: NumberLocale; pattern: RegExp }[] = [
+  { locale: 'en-US', pattern: /\b\d{1,3}(?:,\d{3})+\.\d+\b/g },
+  { locale: 'en-US', pattern: /\b\d{1,3}(?:,\d{3}){2,}\b/g },
+  { locale: 'en-IN', pattern: /\b\d{1,2}(?:,\d{2})+,\d{3}\b/g },
+  { locale: 'de-DE', pattern: /\b\d{1,3}(?:\.\d{3})+,\d+\b/g },
+  { locale: 'de-DE', pattern: /\b\d{1,3}(?:\.\d{3}){2,}\b/g },
+  { locale: 'fr-FR', pattern: /\b\d{1,3}(?:[ \u00a0\u202f]\d{3})+,\d+\b/g }
+];
+
+export const detectNumberLocale = (text: string): NumberLocale => {
+  const scores: Record<NumberLocale, number> = { 'en-US': 0, 'en-IN': 0, 'de-DE': 0, 'fr-FR': 0 };
+
+  LOCALE_EVIDENCE.forEach(({ locale, pattern }) => {
+    scores[locale] += (text.match(pattern) || []).length;
+  });
+
+  // Ties (including no evidence at all) fall back to the US convention
+  return (Object.keys(scores) as NumberLocale[]).reduce((best, locale) =>
+    scores[locale] > scores[best] ? locale : best, 'en-US' as NumberLocale);
+};
+
+export const valuePattern = (locale: NumberLocale) =>
+  `(?<raw>${PREFIX_PATTERN}(?<number>${NUMBER_PATTERNS[locale]})(?<close>\\))?(?:${INLINE_SCALE_PATTERN})?(?:\\s?${CURRENCY_SUFFIX_PATTERN})?${SUFFIX_PATTERN})`;
+
+// Canonical "1234567.89" form of a number written in the given convention
+export const normaliseNumber = (numberText: string, locale: NumberLocale): string => {
+  switch (locale) {
+    case 'de-DE':
+      return numberText.replace(/\./g, '').replace(',', '.');
+    case 'fr-FR':
+      return numberText.replace(/[ \u00a0\u202f]/g, '').replace(',', '.');
+    default:
+      return numberText.replace(/,/g, '');
+  }
+};
+
+export interface ParsedAmount {
+  value: number;
+  numberText: string;
+  rawText: string;
+  scaleToken?: string;
+  currencyToken?: string;
+}
+
+const isMinus = (char: string) => char === '-' || char === '−';
+
+export const parseAmountMatch = (
+  groups: { [key: string]: string | undefined },
+  locale: NumberLocale = 'en-US'
+): ParsedAmount | null => {
+  if (!groups.number) return null;
+
+  const numberText = normaliseNumber(groups.number, locale);
+  const magnitude = parseFloat(numberText);
+  if (isNaN(magnitude)) return null;
+
+  const prefix = groups.prefix || '';
+  const suffix = groups.suffix || '';
+  const marker = groups.marker?.toUpperCase();
+
+  // Accounting parentheses only count when they enclose the number
+  const parenthesised = prefix.includes('(') && (groups.close === ')' || suffix.includes(')'));
+  const minus = Array.from(prefix).some(isMinus) || Array.from(suffix).some(isMinus);
+  const negative = parenthesised || minus || marker === 'CR';
+
+  return {
+    value: negative ? -magnitude : magnitude,
+    numberText,
+    rawText: (groups.raw || groups.number).trim(),
+    scaleToken: groups.scaleAbbr || groups.scaleWord,
+    currencyToken: groups.currency || groups.currencySuffix
+  };
+};
+
+export const formatAmount = (value: number, currency = 'USD') => {
+  let formatted: string;
+  if (!currency) {
+    formatted = Math.abs(value).toLocaleString('en-US', { maximumFractionDigits: 2 });
+    return value < 0 ? `(${formatted})` : formatted;
+  }
+  try {
+    formatted = new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2
+    }).format(Math.abs(value));
+  } catch {
+    formatted = `${currency} ${Math.abs(value).toLocaleString()}`;
+  }
+  return value < 0 ? `(${formatted})` : formatted;
+};
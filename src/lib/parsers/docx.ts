@@ -0,0 +1,286 @@
+import JSZip from 'jszip';
+import type { DocumentPart, ExtractedFigure } from '../../types/financial';
+import { rankCandidates } from '../candidates';
+import { UNITLESS, currencyAt, dominantCurrency, findCurrencyDeclarations, resolveCurrency } from '../currency';
+import { extractFinancialFigures } from '../extraction';
+import type { ExtractionOptions, SourceLocation } from '../extraction';
+import { detectNumberLocale, parseAmountMatch, valuePattern } from '../numbers';
+import { defaultPeriod, findPeriodMentions, mentionDistance, nearestPeriodMention } from '../periods';
+import { applyScale, findScaleDeclarations, scaleAt, scaleMultiplier, statedPrecision } from '../scale';
+import { applyExpectedSign, matchFieldLabel } from '../taxonomy';
+
+export interface DocxTableCell {
+  text: string;
+  column: number;
+  span: number;
+}
+
+export type DocxBlock =
+  | { kind: 'paragraph'; part: DocumentPart; paragraph: number; text: string; heading: boolean }
+  | { kind: 'table'; part: DocumentPart; table: number; rows: DocxTableCell[][] };
+
+export interface DocxModel {
+  blocks: DocxBlock[];
+}
+
+const PART_LABELS: Record<DocumentPart, string> = {
+  body: 'Body',
+  header: 'Header',
+  footer: 'Footer',
+  footnotes: 'Footnotes'
+};
+
+const childElements = (element: Element) => Array.from(element.children);
+
+// Visible text of a paragraph; paragraph and run properties are skipped because tab stops are also <w:tab>
+const paragraphText = (element: Element): string =>
+  childElements(element).map(child => {
+    switch (child.localName) {
+      case 't': return child.textContent ?? '';
+      case 'tab': return '\t';
+      case 'br':
+      case 'cr': return '\n';
+      case 'pPr':
+      case 'rPr':
+      case 'delText':
+      case 'instrText': return '';
+      default: return paragraphText(child);
+    }
+  }).join('');
+
+const readTableRow = (row: Element): DocxTableCell[] => {
+  const cells: DocxTableCell[] = [];
+  let column = 1;
+  childElements(row).filter(child => child.localName === 'tc').forEach(cell => {
+    const gridSpan = childElements(cell)
+      .find(child => child.localName === 'tcPr')
+      ?.getElementsByTagName('w:gridSpan')[0]
+      ?.getAttribute('w:val');
+    const span = gridSpan ? parseInt(gridSpan, 10) || 1 : 1;
+    const text = childElements(cell)
+      .filter(child => child.localName === 'p')
+      .map(paragraphText)
+      .join(' ')
+      .trim();
+    cells.push({ text, column, span });
+    column += span;
+  });
+  return cells;
+};
+
+// Heading styles by id; ids are localised ("berschrift1") but style names stay "heading 1"
+const readHeadingStyles = (stylesXml: Document | null): Set<string> => {
+  const headings = new Set<string>();
+  if (!stylesXml) return headings;
+  Array.from(stylesXml.getElementsByTagName('w:style')).forEach(style => {
+    const name = style.getElementsByTagName('w:name')[0]?.getAttribute('w:val') ?? '';
+    const id = style.getAttribute('w:styleId');
+    if (id && /^(heading \d|title)$/i.test(name)) headings.add(id);
+  });
+  return headings;
+};
+
+export const parseDocx = async (data: ArrayBuffer): Promise<DocxModel> => {
+  const zip = await JSZip.loadAsync(data);
+  const parser = new DOMParser();
+  const readXml = async (path: string) => {
+    const file = zip.file(path);
+    return file ? parser.parseFromString(await file.async('string'), 'application/xml') : null;
+  };
+
+  const documentXml = await readXml('word/document.xml');
+  if (!documentXml) throw new Error('Missing word/document.xml - not a Word document');
+  const headingStyles = readHeadingStyles(await readXml('word/styles.xml'));
+
+  const blocks: DocxBlock[] = [];
+  const paragraphCounts: Record<DocumentPart, number> = { body: 0, header: 0, footer: 0, footnotes: 0 };
+  let tableCount = 0;
+
+  const readContainer = (container: Element, part: DocumentPart) => {
+    childElements(container).forEach(child => {
+      if (child.localName === 'p') {
+        const styleId = child.getElementsByTagName('w:pStyle')[0]?.getAttribute('w:val') ?? '';
+        const outlined = child.getElementsByTagName('w:outlineLvl').length > 0;
+        blocks.push({
+          kind: 'paragraph',
+          part,
+          paragraph: ++paragraphCounts[part],
+          text: paragraphText(child),
+          heading: headingStyles.has(styleId) || /^(heading|title)/i.test(styleId) || outlined
+        });
+      } else if (child.localName === 'tbl') {
+        const rows = childElements(child).filter(row => row.localName === 'tr').map(readTableRow);
+        blocks.push({ kind: 'table', part, table: ++tableCount, rows });
+      } else if (child.localName === 'sdt' || child.localName === 'sdtContent' || child.localName === 'footnote') {
+        if (child.getAttribute('w:type')?.toLowerCase().includes('separator')) return;
+        readContainer(child, part);
+      }
+    });
+  };
+
+  // header2.xml before header10.xml: parts are ordered by their number, not as strings
+  const partNumber = (path: string) => Number(path.match(/(\d*)\.xml$/)?.[1] || 0);
+  const partFiles = (prefix: string) =>
+    Object.keys(zip.files)
+      .filter(path => new RegExp(`^word/${prefix}\\d*\\.xml$`).test(path))
+      .sort((a, b) => partNumber(a) - partNumber(b));
+
+  for (const path of partFiles('header')) {
+    const xml = await readXml(path);
+    if (xml) readContainer(xml.documentElement, 'header');
+  }
+  const body = documentXml.getElementsByTagName('w:body')[0];
+  if (body) readContainer(body, 'body');
+  const footnotes = await readXml('word/footnotes.xml');
+  if (footnotes) readContainer(footnotes.documentElement, 'footnotes');
+  for (const path of partFiles('footer')) {
+    const xml = await readXml(path);
+    if (xml) readContainer(xml.documentElement, 'footer');
+  }
+
+  return { blocks };
+};
+
+interface LaidOutCell {
+  cell: DocxTableCell;
+  offset: number;
+}
+
+interface LaidOutTable {
+  block: Extract<DocxBlock, { kind: 'table' }>;
+  heading?: string;
+  offset: number;
+  rows: { offset: number; length: number; cells: LaidOutCell[] }[];
+}
+
+// Flattens the document into one text (so scale, currency and period declarations keep working)
+// while remembering where each paragraph and table cell landed
+const layoutDocx = (model: DocxModel) => {
+  let text = '';
+  let heading: string | undefined;
+  const paragraphs: { start: number; end: number; source: SourceLocation }[] = [];
+  const tables: LaidOutTable[] = [];
+
+  model.blocks.forEach(block => {
+    if (block.kind === 'paragraph') {
+      const start = text.length;
+      text += `${block.text}\n`;
+      if (block.heading && block.part === 'body' && block.text.trim()) heading = block.text.trim();
+
+      const where = block.part === 'body' ? heading : PART_LABELS[block.part];
+      paragraphs.push({
+        start,
+        end: text.length,
+        source: {
+          location: `${where ? `${where} › ` : ''}Paragraph ${block.paragraph}`,
+          anchor: { kind: 'paragraph', part: block.part, paragraph: block.paragraph, heading: block.part === 'body' ? heading : undefined }
+        }
+      });
+      return;
+    }
+
+    const table: LaidOutTable = { block, heading: block.part === 'body' ? heading : PART_LABELS[block.part], offset: text.length, rows: [] };
+    block.rows.forEach(cells => {
+      const rowStart = text.length;
+      const laidOut = cells.map(cell => {
+        const offset = text.length;
+        text += `${cell.text}\t`;
+        return { cell, offset };
+      });
+      text += '\n';
+      table.rows.push({ offset: rowStart, length: text.length - rowStart, cells: laidOut });
+    });
+    tables.push(table);
+  });
+
+  return { text, paragraphs, tables };
+};
+
+export const docxText = (model: DocxModel) => layoutDocx(model).text;
+
+const tableCellLocation = (table: LaidOutTable, row: number, column: number): SourceLocation => ({
+  location: `${table.heading ? `${table.heading} › ` : ''}Table ${table.block.table}, row ${row}, column ${column}`,
+  anchor: { kind: 'table-cell', table: table.block.table, row, column, heading: table.heading }
+});
+
+export const extractFiguresFromDocx = (
+  model: DocxModel,
+  fileName: string,
+  options: ExtractionOptions = {}
+): ExtractedFigure[] => {
+  const { text, paragraphs, tables } = layoutDocx(model);
+  const numberLocale = options.numberLocale ?? detectNumberLocale(text);
+
+  // Running text goes through the regular extractor; table text is read row by row below
+  const prose = extractFinancialFigures(text, fileName, {
+    ...options,
+    numberLocale,
+    locate: index => paragraphs.find(p => index >= p.start && index < p.end)?.source ?? null
+  });
+
+  const scaleDeclarations = findScaleDeclarations(text);
+  const currencyDeclarations = findCurrencyDeclarations(text);
+  const documentCurrency = dominantCurrency(currencyDeclarations);
+  const periodMentions = findPeriodMentions(text);
+  const amountPattern = new RegExp(`^\\s*${valuePattern(numberLocale)}\\s*$`, 'i');
+  const figures: ExtractedFigure[] = [];
+
+  tables.forEach(table => {
+    table.rows.forEach((row, rowIndex) => {
+      const labelCell = row.cells.find(({ cell }) => cell.text && !amountPattern.test(cell.text));
+      const fieldPattern = labelCell && matchFieldLabel(labelCell.cell.text, options.taxonomy);
+      if (!labelCell || !fieldPattern) return;
+
+      row.cells.filter(({ cell }) => cell.column > labelCell.cell.column).forEach(({ cell, offset }) => {
+        const match = amountPattern.exec(cell.text);
+        const amount = match?.groups ? parseAmountMatch(match.groups, numberLocale) : null;
+        if (!amount || amount.value === 0) return;
+
+        // Period from the nearest header cell above that spans this column, else the nearest mention in the text
+        const header = table.rows
+          .slice(0, rowIndex)
+          .reverse()
+          .map(above => above.cells.find(c => c.cell.column <= cell.column && cell.column < c.cell.column + c.cell.span))
+          .map(above => above && findPeriodMentions(above.cell.text)[0])
+          .find(mention => mention);
+        const nearby = header ? undefined : nearestPeriodMention(periodMentions, row.offset, row.length);
+
+        const inlineScale = amount.scaleToken;
+        const sectionScale = inlineScale || fieldPattern.unit === 'count' ? undefined : scaleAt(scaleDeclarations, offset);
+        const multiplier = inlineScale ? scaleMultiplier(inlineScale) : sectionScale?.multiplier ?? 1;
+
+        const sectionCurrency = currencyAt(currencyDeclarations, offset);
+        const { currency, source: currencySource } = fieldPattern.unit === 'count' ? UNITLESS : resolveCurrency(
+          amount.currencyToken,
+          sectionCurrency?.currency,
+          documentCurrency,
+          options.defaultCurrency ?? 'USD'
+        );
+
+        figures.push({
+          category: fieldPattern.category,
+          period: header?.period ?? nearby?.period ?? periodMentions[0]?.period ?? defaultPeriod(),
+          periodEvidence: header?.text ?? nearby?.text,
+          periodSource: header ? 'header' : nearby ? 'nearby' : 'document',
+          periodDistance: nearby && mentionDistance(nearby, row.offset, row.length),
+          value: applyExpectedSign(applyScale(amount.value, multiplier), fieldPattern.expectedSign),
+          label: fieldPattern.field,
+          matchedLabel: labelCell.cell.text.trim(),
+          documentName: fileName,
+          ...tableCellLocation(table, rowIndex + 1, cell.column),
+          confidence: 0, // Set by rankCandidates
+          rawText: amount.rawText,
+          multiplier,
+          precision: statedPrecision(amount.numberText, multiplier),
+          scaleSource: inlineScale ? 'inline' : sectionScale ? 'section' : 'none',
+          scaleEvidence: inlineScale ? undefined : sectionScale?.text,
+          currency,
+          currencySource,
+          currencyEvidence: currencySource === 'section' ? sectionCurrency?.text : undefined
+        });
+      });
+    });
+  });
+
+  return rankCandidates([...prose, ...figures]);
+};
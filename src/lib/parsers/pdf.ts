@@ -0,0 +1,173 @@
+import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { BoundingBox, ExtractedFigure } from '../../types/financial';
+import { extractFinancialFigures } from '../extraction';
+import type { ExtractionOptions, SourceLocation } from '../extraction';
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+export interface PdfTextRun {
+  text: string;
+  box: BoundingBox;
+}
+
+export interface PdfLine {
+  runs: PdfTextRun[];
+  table?: number;
+}
+
+export interface PdfPage {
+  number: number;
+  width: number;
+  height: number;
+  lines: PdfLine[];
+}
+
+export interface PdfModel {
+  pages: PdfPage[];
+}
+
+// pdf.js takes ownership of the buffer it is given, so callers that need the bytes again pass a copy
+export const loadPdfDocument = (data: ArrayBuffer): Promise<PDFDocumentProxy> =>
+  getDocument({ data: new Uint8Array(data.slice(0)) }).promise;
+
+export const unionBoxes = (boxes: BoundingBox[]): BoundingBox => {
+  const left = Math.min(...boxes.map(b => b.x));
+  const top = Math.min(...boxes.map(b => b.y));
+  const right = Math.max(...boxes.map(b => b.x + b.width));
+  const bottom = Math.max(...boxes.map(b => b.y + b.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Runs whose vertical centres sit within half a line height of each other share a line
+const groupLines = (runs: PdfTextRun[]): PdfLine[] => {
+  const sorted = [...runs].sort((a, b) => (a.box.y + a.box.height / 2) - (b.box.y + b.box.height / 2) || a.box.x - b.box.x);
+  const lines: PdfLine[] = [];
+
+  sorted.forEach(run => {
+    const line = lines[lines.length - 1];
+    const centre = run.box.y + run.box.height / 2;
+    if (line) {
+      const box = unionBoxes(line.runs.map(r => r.box));
+      if (Math.abs(centre - (box.y + box.height / 2)) <= Math.max(box.height, run.box.height) / 2) {
+        line.runs.push(run);
+        return;
+      }
+    }
+    lines.push({ runs: [run] });
+  });
+
+  lines.forEach(line => line.runs.sort((a, b) => a.box.x - b.box.x));
+  return lines;
+};
+
+// Gap before a run: wide gaps separate table columns, narrow ones words
+const separatorBefore = (previous: PdfTextRun, run: PdfTextRun) => {
+  const gap = run.box.x - (previous.box.x + previous.box.width);
+  const charWidth = previous.box.width / Math.max(previous.text.length, 1);
+  if (gap > charWidth * 3) return '\t';
+  return gap > run.box.height * 0.15 ? ' ' : '';
+};
+
+const lineColumns = (line: PdfLine) =>
+  line.runs.reduce((columns, run, index) =>
+    index > 0 && separatorBefore(line.runs[index - 1], run) === '\t' ? columns + 1 : columns, 1);
+
+// Two or more consecutive lines laid out in columns with figures in them form a table
+const markTables = (lines: PdfLine[]) => {
+  const tabular = lines.map(line => lineColumns(line) >= 2 && line.runs.slice(1).some(run => /\d/.test(run.text)));
+  let table = 0;
+
+  tabular.forEach((isTabular, index) => {
+    if (!isTabular) return;
+    const startsRun = index === 0 || !tabular[index - 1];
+    if (startsRun && !tabular[index + 1]) return;
+    if (startsRun) table++;
+    lines[index].table = table;
+  });
+};
+
+export const parsePdf = async (data: ArrayBuffer): Promise<PdfModel> => {
+  const pdf = await loadPdfDocument(data);
+  const pages: PdfPage[] = [];
+
+  for (let number = 1; number <= pdf.numPages; number++) {
+    const page = await pdf.getPage(number);
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+
+    const runs = content.items
+      .filter((item): item is TextItem => 'str' in item && item.str.trim().length > 0)
+      .map(item => {
+        const [, , , , e, f] = item.transform;
+        const height = item.height || Math.hypot(item.transform[2], item.transform[3]);
+        const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([e, f, e + item.width, f + height]);
+        return {
+          text: item.str,
+          box: { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) }
+        };
+      });
+
+    const lines = groupLines(runs);
+    markTables(lines);
+    pages.push({ number, width: viewport.width, height: viewport.height, lines });
+    page.cleanup();
+  }
+
+  await pdf.destroy();
+  return { pages };
+};
+
+interface RunSpan {
+  start: number;
+  end: number;
+  page: number;
+  table?: number;
+  box: BoundingBox;
+}
+
+const layoutPdf = (model: PdfModel) => {
+  let text = '';
+  const spans: RunSpan[] = [];
+
+  model.pages.forEach(page => {
+    page.lines.forEach(line => {
+      line.runs.forEach((run, index) => {
+        if (index > 0) text += separatorBefore(line.runs[index - 1], run);
+        spans.push({ start: text.length, end: text.length + run.text.length, page: page.number, table: line.table, box: run.box });
+        text += run.text;
+      });
+      text += '\n';
+    });
+    text += '\n';
+  });
+
+  return { text, spans };
+};
+
+export const pdfText = (model: PdfModel) => layoutPdf(model).text;
+
+export const extractFiguresFromPdf = (
+  model: PdfModel,
+  fileName: string,
+  options: ExtractionOptions = {}
+): ExtractedFigure[] => {
+  const { text, spans } = layoutPdf(model);
+
+  // The figure's box covers every text run the label-and-value match touched on its first page
+  const locate = (index: number, length: number): SourceLocation | undefined => {
+    const touched = spans.filter(span => span.end > index && span.start < index + length);
+    if (touched.length === 0) return undefined;
+
+    const { page, table } = touched[0];
+    const onPage = touched.filter(span => span.page === page);
+    return {
+      location: `Page ${page}${table ? `, table ${table}` : ''}`,
+      anchor: { kind: 'pdf', page, box: unionBoxes(onPage.map(span => span.box)), table }
+    };
+  };
+
+  return extractFinancialFigures(text, fileName, { ...options, locate });
+};
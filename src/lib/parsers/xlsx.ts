@@ -0,0 +1,264 @@
+import { Workbook } from 'exceljs';
+import type { CellValue } from 'exceljs';
+import type { ExtractedFigure, Period } from '../../types/financial';
+import { rankCandidates } from '../candidates';
+import { UNITLESS, dominantCurrency, findCurrencyDeclarations, resolveCurrency } from '../currency';
+import type { CurrencyDeclaration } from '../currency';
+import type { ExtractionOptions } from '../extraction';
+import { defaultPeriod, findPeriodMentions } from '../periods';
+import { applyScale, findScaleDeclarations } from '../scale';
+import type { ScaleDeclaration } from '../scale';
+import { applyExpectedSign, matchFieldLabel } from '../taxonomy';
+
+export interface SheetCell {
+  row: number;
+  column: number;
+  address: string;
+  value: number | string | Date | null;
+  numFmt?: string;
+  formula?: string;
+  mergedSlave: boolean;
+}
+
+export interface SheetModel {
+  name: string;
+  rows: Map<number, Map<number, SheetCell>>;
+}
+
+export interface SpreadsheetModel {
+  sheets: SheetModel[];
+}
+
+// Evaluated value of a cell: formula results, rich text and hyperlinks are flattened to what Excel shows
+const resolveCellValue = (value: CellValue): number | string | Date | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'string' || value instanceof Date) return value;
+  if (typeof value === 'boolean') return null;
+  if ('formula' in value || 'sharedFormula' in value) {
+    const result = value.result;
+    return typeof result === 'number' || typeof result === 'string' || result instanceof Date ? result : null;
+  }
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('text' in value) return value.text;
+  return null;
+};
+
+export const parseXlsx = async (data: ArrayBuffer): Promise<SpreadsheetModel> => {
+  const workbook = new Workbook();
+  await workbook.xlsx.load(data);
+
+  const sheets: SheetModel[] = [];
+  workbook.eachSheet(worksheet => {
+    const rows = new Map<number, Map<number, SheetCell>>();
+    worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      const cells = new Map<number, SheetCell>();
+      row.eachCell({ includeEmpty: false }, (cell, columnNumber) => {
+        cells.set(columnNumber, {
+          row: rowNumber,
+          column: columnNumber,
+          address: cell.address,
+          value: resolveCellValue(cell.value),
+          numFmt: cell.numFmt || undefined,
+          formula: cell.formula || undefined,
+          mergedSlave: cell.isMerged && cell.master.address !== cell.address
+        });
+      });
+      rows.set(rowNumber, cells);
+    });
+    sheets.push({ name: worksheet.name, rows });
+  });
+
+  return { sheets };
+};
+
+interface NumberFormatInfo {
+  scale: number;
+  decimals: number;
+  percent: boolean;
+  currencyToken?: string;
+}
+
+// Reads the positive section of an Excel number format. Each trailing comma after the digit
+// placeholders divides the displayed value by 1,000, so "#,##0,," shows millions.
+export const readNumberFormat = (numFmt: string | undefined): NumberFormatInfo => {
+  if (!numFmt || numFmt === 'General') return { scale: 1, decimals: 0, percent: false };
+
+  const positive = numFmt.split(';')[0];
+  const bracketCurrency = positive.match(/\[\$([^\]-]+)/)?.[1];
+  const literal = positive.replace(/"[^"]*"/g, '').replace(/\[[^\]]*\]/g, '').replace(/\\./g, '');
+  const quotedCurrency = positive.match(/"([$€£¥₹]|[A-Z]{3})"/)?.[1] ?? positive.match(/\\?([$€£¥₹])/)?.[1];
+
+  const trailingCommas = literal.match(/[0#?](,+)(?![0#?,])/)?.[1].length ?? 0;
+  const decimals = literal.match(/\.([0#?]+)/)?.[1].length ?? 0;
+
+  return {
+    scale: Math.pow(1000, trailingCommas),
+    decimals,
+    percent: literal.includes('%'),
+    currencyToken: bracketCurrency ?? quotedCurrency
+  };
+};
+
+export const columnLetters = (column: number): string => {
+  let letters = '';
+  for (let n = column; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+// Excel reference to a cell, e.g. Summary!B12 or 'Balance Sheet'!B12. Names other than plain words, and
+// names that read as a cell themselves ("FY2024"), are quoted, with any quote in the name doubled.
+export const cellReference = (sheetName: string, address: string) =>
+  /^[A-Za-z_][A-Za-z0-9_.]*$/.test(sheetName) && !/^([A-Za-z]{1,3}\d+|R\d*C\d*)$/i.test(sheetName)
+    ? `${sheetName}!${address}`
+    : `'${sheetName.replace(/'/g, "''")}'!${address}`;
+
+const isYear = (value: number) => Number.isInteger(value) && value >= 1990 && value <= 2100;
+
+// Period a column header describes: "FY2024", "Q1 2024", a bare year typed as a number, or a
+// period-end date (read as the fiscal year ending in that month). Bare numbers only count in header rows.
+const headerPeriod = (cell: SheetCell, yearRows: Set<number>): { period: Period; text: string } | null => {
+  const { value } = cell;
+  if (value instanceof Date) {
+    return {
+      period: { type: 'fiscal_year', year: value.getUTCFullYear(), yearEndMonth: value.getUTCMonth() + 1 },
+      text: value.toISOString().slice(0, 10)
+    };
+  }
+  if (typeof value === 'number') {
+    return yearRows.has(cell.row) && isYear(value)
+      ? { period: { type: 'fiscal_year', year: value }, text: String(value) }
+      : null;
+  }
+  if (typeof value === 'string') {
+    const mention = findPeriodMentions(value)[0];
+    return mention ? { period: mention.period, text: mention.text } : null;
+  }
+  return null;
+};
+
+// Rows that can carry bare year headers: no field label, and every number in them looks like a year,
+// so a headcount of 2000 or an amount of 2050 above a figure is not read as its period
+const findYearRows = (sheet: SheetModel, options: ExtractionOptions) => {
+  const rows = new Set<number>();
+  sheet.rows.forEach((cells, rowNumber) => {
+    const values = Array.from(cells.values()).map(cell => cell.value);
+    const labelled = values.some(value => typeof value === 'string' && matchFieldLabel(value, options.taxonomy));
+    const numbers = values.filter((value): value is number => typeof value === 'number');
+    if (!labelled && numbers.length > 0 && numbers.every(isYear)) rows.add(rowNumber);
+  });
+  return rows;
+};
+
+const findColumnPeriod = (sheet: SheetModel, yearRows: Set<number>, row: number, column: number) => {
+  for (let r = row - 1; r >= 1; r--) {
+    const cell = sheet.rows.get(r)?.get(column);
+    if (!cell) continue;
+    const found = headerPeriod(cell, yearRows);
+    if (found) return { ...found, address: cell.address };
+  }
+  return null;
+};
+
+interface SheetDeclarations {
+  scales: (ScaleDeclaration & { row: number })[];
+  currencies: (CurrencyDeclaration & { row: number })[];
+}
+
+// Scale and currency headers ("(in thousands)", "Expressed in EUR") written anywhere in a sheet's text cells
+const collectDeclarations = (sheet: SheetModel): SheetDeclarations => {
+  const scales: SheetDeclarations['scales'] = [];
+  const currencies: SheetDeclarations['currencies'] = [];
+
+  Array.from(sheet.rows.keys()).sort((a, b) => a - b).forEach(rowNumber => {
+    sheet.rows.get(rowNumber)!.forEach(cell => {
+      if (typeof cell.value !== 'string') return;
+      findScaleDeclarations(cell.value).forEach(d => scales.push({ ...d, text: `${d.text} (${cellReference(sheet.name, cell.address)})`, row: rowNumber }));
+      findCurrencyDeclarations(cell.value).forEach(d => currencies.push({ ...d, text: `${d.text} (${cellReference(sheet.name, cell.address)})`, row: rowNumber }));
+    });
+  });
+
+  return { scales, currencies };
+};
+
+const latestUpTo = <T extends { row: number }>(declarations: T[], row: number): T | undefined =>
+  declarations.filter(d => d.row <= row).pop();
+
+export const extractFiguresFromSpreadsheet = (
+  model: SpreadsheetModel,
+  fileName: string,
+  options: ExtractionOptions = {}
+): ExtractedFigure[] => {
+  const figures: ExtractedFigure[] = [];
+  const allCurrencies = model.sheets.flatMap(sheet => collectDeclarations(sheet).currencies);
+  const workbookCurrency = dominantCurrency(allCurrencies);
+
+  model.sheets.forEach(sheet => {
+    const declarations = collectDeclarations(sheet);
+    const yearRows = findYearRows(sheet, options);
+    const sheetPeriod = Array.from(sheet.rows.values())
+      .flatMap(cells => Array.from(cells.values()))
+      .map(cell => headerPeriod(cell, yearRows))
+      .find(found => found !== null);
+
+    sheet.rows.forEach((cells, rowNumber) => {
+      const columns = Array.from(cells.keys()).sort((a, b) => a - b);
+      const labelColumn = columns.find(c => typeof cells.get(c)!.value === 'string');
+      if (labelColumn === undefined) return;
+
+      const labelText = cells.get(labelColumn)!.value as string;
+      const fieldPattern = matchFieldLabel(labelText, options.taxonomy);
+      if (!fieldPattern) return;
+
+      columns.filter(c => c > labelColumn).forEach(column => {
+        const cell = cells.get(column)!;
+        if (typeof cell.value !== 'number' || cell.value === 0 || cell.mergedSlave) return;
+
+        const format = readNumberFormat(cell.numFmt);
+        if (format.percent) return;
+
+        const header = findColumnPeriod(sheet, yearRows, rowNumber, column);
+        const sectionScale = fieldPattern.unit === 'count' ? undefined : latestUpTo(declarations.scales, rowNumber);
+        const sectionCurrency = latestUpTo(declarations.currencies, rowNumber);
+        const { currency, source: currencySource } = fieldPattern.unit === 'count' ? UNITLESS : resolveCurrency(
+          format.currencyToken,
+          sectionCurrency?.currency,
+          workbookCurrency,
+          options.defaultCurrency ?? 'USD'
+        );
+
+        // A scaling number format displays base-unit values in thousands or millions, so the stored
+        // value is already correct; a "(in thousands)" header means the stored value itself is scaled.
+        const formatScaled = format.scale > 1;
+        const multiplier = formatScaled ? format.scale : sectionScale?.multiplier ?? 1;
+        const value = applyExpectedSign(formatScaled ? cell.value : applyScale(cell.value, multiplier), fieldPattern.expectedSign);
+        const displayed = formatScaled ? cell.value / format.scale : cell.value;
+
+        figures.push({
+          category: fieldPattern.category,
+          period: header?.period ?? sheetPeriod?.period ?? defaultPeriod(),
+          periodEvidence: header ? `${header.text} (${cellReference(sheet.name, header.address)})` : sheetPeriod?.text,
+          periodSource: header ? 'header' : 'document',
+          value,
+          label: fieldPattern.field,
+          matchedLabel: labelText.trim(),
+          documentName: fileName,
+          location: cellReference(sheet.name, `${columnLetters(column)}${rowNumber}`),
+          anchor: { kind: 'cell', sheet: sheet.name, cell: cell.address, row: rowNumber, column },
+          confidence: 0, // Set by rankCandidates
+          rawText: displayed.toLocaleString(undefined, { minimumFractionDigits: format.decimals, maximumFractionDigits: Math.max(format.decimals, 2) }),
+          multiplier,
+          precision: multiplier > 1 ? Math.pow(10, -format.decimals) * multiplier : undefined,
+          scaleSource: formatScaled ? 'format' : sectionScale ? 'section' : 'none',
+          scaleEvidence: formatScaled ? `number format ${cell.numFmt}` : sectionScale?.text,
+          currency,
+          currencySource,
+          currencyEvidence: currencySource === 'section' ? sectionCurrency?.text : undefined
+        });
+      });
+    });
+  });
+
+  return rankCandidates(figures);
+};
@@ -0,0 +1,251 @@
+import type { Period, PeriodSettings, StatementCategory } from '../types/financial';
+
+export const DEFAULT_PERIOD_SETTINGS: PeriodSettings = {
+  fiscalYearEndMonth: 12
+};
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const YEAR_PATTERN = "'?((?:19|20)\\d{2}|\\d{2})";
+const ORDINALS: { [word: string]: number } = { first: 1, second: 2, third: 3, fourth: 4, '1st': 1, '2nd': 2, '3rd': 3, '4th': 4 };
+const MONTH_COUNTS: { [word: string]: number } = { three: 3, six: 6, nine: 9, twelve: 12 };
+
+const monthNumber = (name: string) => MONTH_NAMES.findIndex(m => name.toLowerCase().startsWith(m.toLowerCase())) + 1;
+
+const fullYear = (text: string) => {
+  const year = parseInt(text.replace(/'/g, ''), 10);
+  return year < 100 ? 2000 + year : year;
+};
+
+export interface PeriodMention {
+  index: number;
+  length: number;
+  period: Period;
+  text: string;
+}
+
+type PeriodParser = { pattern: RegExp; parse: (match: RegExpExecArray) => Period | null };
+
+// Ordered most specific first; a later pattern cannot claim text already matched by an earlier one,
+// so "year ended 31 March 2024" is a fiscal year rather than a month or a bare year.
+const PERIOD_PARSERS: PeriodParser[] = [
+  {
+    // "year ended 31 December 2024", "fiscal year ending June 30, 2024", "FY ending June 2024"
+    pattern: new RegExp(`\\b(?:fiscal\\s+year|financial\\s+year|year|FY)\\s+end(?:ed|ing)\\s+(?:\\d{1,2}\\s+)?${MONTH_PATTERN}\\s*(?:\\d{1,2},?\\s+)?${YEAR_PATTERN}\\b`, 'gi'),
+    parse: m => ({ type: 'fiscal_year', year: fullYear(m[2]), yearEndMonth: monthNumber(m[1]) })
+  },
+  {
+    // "six months ended June 30, 2024", "nine months ending 30 September 2024"
+    pattern: new RegExp(`\\b(three|six|nine|twelve|3|6|9|12)\\s+months\\s+end(?:ed|ing)\\s+(?:\\d{1,2}\\s+)?${MONTH_PATTERN}\\s*(?:\\d{1,2},?\\s+)?${YEAR_PATTERN}\\b`, 'gi'),
+    parse: m => {
+      const months = MONTH_COUNTS[m[1].toLowerCase()] ?? parseInt(m[1], 10);
+      const period = { year: fullYear(m[3]), month: monthNumber(m[2]) };
+      if (months === 3) return { type: 'quarter', ...period };
+      if (months === 6) return { type: 'half', ...period };
+      if (months === 12) return { type: 'ltm', ...period };
+      return { type: 'ytd', ...period };
+    }
+  },
+  {
+    // "as at 31 December 2024", "as of December 31, 2024", "at 2024-12-31"
+    pattern: new RegExp(`\\b(?:as\\s+(?:at|of)|at)\\s+(?:(\\d{1,2})\\s+${MONTH_PATTERN}|${MONTH_PATTERN}\\s+(\\d{1,2}),?)\\s+${YEAR_PATTERN}\\b`, 'gi'),
+    parse: m => ({
+      type: 'point_in_time',
+      year: fullYear(m[5]),
+      month: monthNumber(m[2] || m[3]),
+      day: parseInt(m[1] || m[4], 10)
+    })
+  },
+  {
+    pattern: /\b(?:as\s+(?:at|of)|at)\s+((?:19|20)\d{2})-(\d{2})-(\d{2})\b/gi,
+    parse: m => ({ type: 'point_in_time', year: parseInt(m[1], 10), month: parseInt(m[2], 10), day: parseInt(m[3], 10) })
+  },
+  {
+    // "LTM Jun 2024", "TTM Sep-24"
+    pattern: new RegExp(`\\b(?:LTM|TTM)\\s+${MONTH_PATTERN}[\\s-]*${YEAR_PATTERN}\\b`, 'gi'),
+    parse: m => ({ type: 'ltm', year: fullYear(m[2]), month: monthNumber(m[1]) })
+  },
+  {
+    // "YTD Sep 2024", "Sep 2024 YTD"
+    pattern: new RegExp(`\\bYTD\\s+${MONTH_PATTERN}[\\s-]*${YEAR_PATTERN}\\b|\\b${MONTH_PATTERN}[\\s-]*${YEAR_PATTERN}\\s+YTD\\b`, 'gi'),
+    parse: m => ({ type: 'ytd', year: fullYear(m[2] || m[4]), month: monthNumber(m[1] || m[3]) })
+  },
+  {
+    // "Q1 2024", "Q1 FY24", "1Q24", "first quarter of 2024"
+    pattern: new RegExp(`\\bQ([1-4])\\s*(?:FY\\s*)?${YEAR_PATTERN}\\b|\\b([1-4])Q\\s*${YEAR_PATTERN}\\b|\\b(first|second|third|fourth|1st|2nd|3rd|4th)\\s+quarter\\s+(?:of\\s+)?(?:FY\\s*)?${YEAR_PATTERN}\\b`, 'gi'),
+    parse: m => ({
+      type: 'quarter',
+      year: fullYear(m[2] || m[4] || m[6]),
+      quarter: m[1] ? parseInt(m[1], 10) : m[3] ? parseInt(m[3], 10) : ORDINALS[m[5].toLowerCase()]
+    })
+  },
+  {
+    // "H1 2024", "1H24", "first half 2024"
+    pattern: new RegExp(`\\bH([12])\\s*(?:FY\\s*)?${YEAR_PATTERN}\\b|\\b([12])H\\s*${YEAR_PATTERN}\\b|\\b(first|second|1st|2nd)\\s+half\\s+(?:of\\s+)?(?:FY\\s*)?${YEAR_PATTERN}\\b`, 'gi'),
+    parse: m => ({
+      type: 'half',
+      year: fullYear(m[2] || m[4] || m[6]),
+      half: m[1] ? parseInt(m[1], 10) : m[3] ? parseInt(m[3], 10) : ORDINALS[m[5].toLowerCase()]
+    })
+  },
+  {
+    // "FY2024", "FY24", "fiscal 2024"
+    pattern: new RegExp(`\\b(?:FY|fiscal(?:\\s+year)?)\\s*${YEAR_PATTERN}\\b`, 'gi'),
+    parse: m => ({ type: 'fiscal_year', year: fullYear(m[1]) })
+  },
+  {
+    // "March 2024", "Mar-24" (but not the day in "December 31, 2024")
+    pattern: new RegExp(`\\b${MONTH_PATTERN}[\\s-]+((?:19|20)\\d{2}|\\d{2})\\b(?!,?\\s*\\d{4})`, 'gi'),
+    parse: m => ({ type: 'month', year: fullYear(m[2]), month: monthNumber(m[1]) })
+  },
+  {
+    pattern: /\b(20\d{2})\b/g,
+    parse: m => ({ type: 'fiscal_year', year: parseInt(m[1], 10) })
+  }
+];
+
+export const findPeriodMentions = (text: string): PeriodMention[] => {
+  const mentions: PeriodMention[] = [];
+  const overlaps = (index: number, length: number) =>
+    mentions.some(m => index < m.index + m.length && m.index < index + length);
+
+  PERIOD_PARSERS.forEach(({ pattern, parse }) => {
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      if (overlaps(match.index, match[0].length)) continue;
+      const period = parse(match);
+      if (period) {
+        mentions.push({ index: match.index, length: match[0].length, period, text: match[0] });
+      }
+    }
+  });
+
+  return mentions.sort((a, b) => a.index - b.index);
+};
+
+// Characters between a period mention and a figure's text
+export const mentionDistance = (mention: PeriodMention, index: number, length: number) =>
+  mention.index < index ? index - (mention.index + mention.length) : mention.index - (index + length);
+
+// Closest period mention within 300 characters of a figure (gap between the two texts), preferring
+// the one before it on a tie.
+// Mentions inside the figure's own text (e.g. a value of "2023") are ignored.
+export const nearestPeriodMention = (
+  mentions: PeriodMention[],
+  index: number,
+  length: number
+): PeriodMention | undefined => {
+  let nearest: PeriodMention | undefined;
+  let nearestDistance = Infinity;
+
+  mentions.forEach(mention => {
+    if (mention.index >= index && mention.index < index + length) return;
+    const distance = mentionDistance(mention, index, length);
+    if (distance < 300 && distance < nearestDistance) {
+      nearest = mention;
+      nearestDistance = distance;
+    }
+  });
+
+  return nearest;
+};
+
+const lastDayOfMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const isoDate = (year: number, month: number, day = lastDayOfMonth(year, month)) =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+// Month `monthsBefore` months before the fiscal year end, rolling back into the prior calendar year
+const shiftMonth = (year: number, month: number, monthsBefore: number) => {
+  const index = year * 12 + (month - 1) - monthsBefore;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+};
+
+export const periodEndDate = (period: Period, settings: PeriodSettings): string => {
+  const yearEndMonth = period.yearEndMonth ?? settings.fiscalYearEndMonth;
+
+  switch (period.type) {
+    case 'fiscal_year':
+      return isoDate(period.year, yearEndMonth);
+    case 'quarter': {
+      if (period.month) return isoDate(period.year, period.month);
+      const end = shiftMonth(period.year, yearEndMonth, 3 * (4 - (period.quarter ?? 4)));
+      return isoDate(end.year, end.month);
+    }
+    case 'half': {
+      if (period.month) return isoDate(period.year, period.month);
+      const end = shiftMonth(period.year, yearEndMonth, 6 * (2 - (period.half ?? 2)));
+      return isoDate(end.year, end.month);
+    }
+    case 'point_in_time':
+      return isoDate(period.year, period.month ?? 12, period.day);
+    default:
+      return isoDate(period.year, period.month ?? yearEndMonth);
+  }
+};
+
+const formatDate = (isoText: string) => {
+  const [year, month, day] = isoText.split('-').map(Number);
+  return `${day} ${MONTH_NAMES[month - 1]} ${year}`;
+};
+
+export const formatPeriod = (period: Period, settings: PeriodSettings): string => {
+  const end = periodEndDate(period, settings);
+  const monthYear = `${MONTH_NAMES[Number(end.split('-')[1]) - 1]} ${end.split('-')[0]}`;
+
+  switch (period.type) {
+    case 'fiscal_year':
+      return period.yearEndMonth ? `FY${period.year} (ending ${monthYear})` : `FY${period.year}`;
+    case 'quarter':
+      return period.quarter ? `Q${period.quarter} FY${period.year}` : `3M to ${monthYear}`;
+    case 'half':
+      return period.half ? `H${period.half} FY${period.year}` : `6M to ${monthYear}`;
+    case 'month':
+      return monthYear;
+    case 'ytd':
+      return `YTD ${monthYear}`;
+    case 'ltm':
+      return `LTM ${monthYear}`;
+    case 'point_in_time':
+      return `As at ${formatDate(end)}`;
+  }
+};
+
+// Number of months a flow period covers; YTD depends on where the fiscal year starts
+export const periodMonths = (period: Period, settings: PeriodSettings): number => {
+  switch (period.type) {
+    case 'quarter':
+      return 3;
+    case 'half':
+      return 6;
+    case 'month':
+      return 1;
+    case 'ytd': {
+      const yearEndMonth = period.yearEndMonth ?? settings.fiscalYearEndMonth;
+      return ((((period.month ?? yearEndMonth) - yearEndMonth - 1) % 12) + 12) % 12 + 1;
+    }
+    case 'point_in_time':
+      return 0;
+    default:
+      return 12;
+  }
+};
+
+// Flow items match when they cover the same months, so "H1 FY2024", "six months ended June 2024"
+// and "YTD Jun 2024" line up for a December year end. Balance sheet items are positions rather
+// than flows, so "FY2024" and "as at 31 Dec 2024" describe the same figure.
+export const periodKey = (period: Period, category: StatementCategory, settings: PeriodSettings): string => {
+  const end = periodEndDate(period, settings);
+  if (category === 'Balance Sheet' || period.type === 'point_in_time') return `at:${end}`;
+  return `${periodMonths(period, settings)}m:${end}`;
+};
+
+export const comparisonPeriodLabel = (period: Period, category: StatementCategory, settings: PeriodSettings): string => {
+  if (category === 'Balance Sheet' && period.type !== 'point_in_time') {
+    return `As at ${formatDate(periodEndDate(period, settings))}`;
+  }
+  return formatPeriod(period, settings);
+};
+
+export const defaultPeriod = (): Period => ({ type: 'fiscal_year', year: new Date().getFullYear() });
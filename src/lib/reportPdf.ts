@@ -0,0 +1,430 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { CellHookData, RowInput } from 'jspdf-autotable';
+import type { AnalysisSettings, ChangeKind, ComparisonResult, CrossCheckReport, DocumentAnalysis, RunDiff } from '../types/financial';
+import { DOCUMENT_ROLE_LABELS, buildCrossCheckReport, describeDeviation, formatComparisonValue } from './comparison';
+import { MATERIALITY_BASIS_LABELS, SEVERITY_LABELS } from './materiality';
+import { formatAmount, NUMBER_LOCALE_LABELS } from './numbers';
+import { MONTH_NAMES } from './periods';
+import { consistencyRate } from './runDiff';
+import { sessionTitle } from './sessions';
+import { STATEMENT_CATEGORIES } from './taxonomy';
+import { VERDICT_LABELS, isConsistentVerdict } from './tolerance';
+
+type Color = [number, number, number];
+
+const BRAND: Color = [37, 99, 235];
+const MUTED: Color = [107, 114, 128];
+const DISCREPANCY_FILL: Color = [254, 226, 226];
+const RESTATEMENT_FILL: Color = [243, 232, 255];
+const CHANGE_FILLS: Record<ChangeKind, Color> = {
+  added: [220, 252, 231],
+  removed: [254, 226, 226],
+  changed: [254, 243, 199]
+};
+const MARGIN = 14;
+
+// The built-in PDF fonts only cover Latin-1; anything else would garble the whole line
+const PDF_REPLACEMENTS: Record<string, string> = {
+  '€': 'EUR ',
+  '₹': 'INR ',
+  '₩': 'KRW ',
+  '›': '>',
+  '•': '-',
+  '–': '-',
+  '—': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '…': '...',
+  '\u00a0': ' ',
+  '\u202f': ' '
+};
+
+const pdfText = (text: string) =>
+  Array.from(text).map(char => PDF_REPLACEMENTS[char] ?? (char.charCodeAt(0) > 0xff ? '?' : char)).join('');
+
+// Where the last table ended, so the next block can follow it
+const tableEnd = (doc: jsPDF) => (doc as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY ?? MARGIN;
+
+const heading = (doc: jsPDF, text: string, y: number) => {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.setTextColor(17, 24, 39);
+  doc.text(pdfText(text), MARGIN, y);
+  return y + 6;
+};
+
+// Bulleted list that wraps and starts a new page when it runs out of room
+const bulletList = (doc: jsPDF, title: string, items: string[], y: number, color: Color) => {
+  if (items.length === 0) return y;
+  const width = doc.internal.pageSize.getWidth() - MARGIN * 2 - 4;
+  const bottom = doc.internal.pageSize.getHeight() - 20;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(17, 24, 39);
+  doc.text(pdfText(title), MARGIN, y);
+  y += 5;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...color);
+  items.forEach(item => {
+    const lines: string[] = doc.splitTextToSize(pdfText(item), width);
+    if (y + lines.length * 4 > bottom) {
+      doc.addPage();
+      y = 24;
+    }
+    doc.text('-', MARGIN, y);
+    doc.text(lines, MARGIN + 4, y);
+    y += lines.length * 4 + 1;
+  });
+  return y + 3;
+};
+
+const addCoverPage = (doc: jsPDF, analyses: DocumentAnalysis[], settings: AnalysisSettings, generated: Date) => {
+  const width = doc.internal.pageSize.getWidth();
+  doc.setFillColor(...BRAND);
+  doc.rect(0, 0, width, 70, 'F');
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(26);
+  doc.text('Document Cross-Checker', MARGIN, 34);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(14);
+  doc.text('Cross-Document Analysis Report', MARGIN, 46);
+  doc.setFontSize(10);
+  doc.text(pdfText(`Generated ${generated.toLocaleString()}`), MARGIN, 58);
+
+  let y = heading(doc, 'Documents', 88);
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Document', 'Role', 'Figures', 'Status']],
+    body: analyses.map(analysis => [
+      pdfText(analysis.fileName),
+      analysis.role ? DOCUMENT_ROLE_LABELS[analysis.role] : 'Peer',
+      String(analysis.extractedFigures.length),
+      analysis.extractionStatus
+    ]),
+    headStyles: { fillColor: BRAND },
+    styles: { fontSize: 9 }
+  });
+
+  const { materiality, tolerance } = settings;
+  y = heading(doc, 'Settings', tableEnd(doc) + 12);
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    body: [
+      ['Reporting currency', settings.currency.reportingCurrency || 'As reported'],
+      ['Fiscal year end', MONTH_NAMES[settings.period.fiscalYearEndMonth - 1]],
+      ['Tolerance', `${tolerance.relativePercent}% relative, ${tolerance.absolute.toLocaleString()} absolute${tolerance.roundingAware ? ', rounding-aware' : ''}`],
+      ['Materiality', `${materiality.basis === 'amount' ? materiality.amount.toLocaleString() : `${materiality.percent}${MATERIALITY_BASIS_LABELS[materiality.basis]}`}, trivial below ${materiality.trivialPercent}% of it`],
+      ['Custom rules', String(settings.rules.length)]
+    ],
+    theme: 'plain',
+    styles: { fontSize: 9 },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 50 } }
+  });
+};
+
+const comparisonRow = (comparison: ComparisonResult, analyses: DocumentAnalysis[]): RowInput => [
+  pdfText(comparison.periodLabel),
+  pdfText(comparison.field),
+  ...analyses.map(analysis => {
+    const source = comparison.sources[analysis.fileName];
+    const value = formatComparisonValue(comparison, analysis.fileName, comparison.values[analysis.fileName]);
+    const verdict = comparison.documentVerdicts[analysis.fileName];
+    return pdfText([
+      value,
+      source && `${source.location} (confidence ${source.confidence.toFixed(2)})`,
+      verdict && !isConsistentVerdict(verdict) ? describeDeviation(comparison, analysis.fileName) : undefined
+    ].filter(Boolean).join('\n'));
+  }),
+  comparison.variance
+    ? pdfText(`${formatAmount(comparison.variance.absolute, comparison.currency ?? undefined)}${comparison.variance.percent !== null ? `\n${comparison.variance.percent.toFixed(1)}%` : ''}`)
+    : 'N/A',
+  `${VERDICT_LABELS[comparison.verdict]}${comparison.severity ? `\n${SEVERITY_LABELS[comparison.severity]}` : ''}`
+];
+
+const addStatementTables = (doc: jsPDF, analyses: DocumentAnalysis[], comparisons: ComparisonResult[]) => {
+  STATEMENT_CATEGORIES.forEach(category => {
+    const rows = comparisons.filter(c => c.category === category);
+    if (rows.length === 0) return;
+
+    doc.addPage();
+    const verdictColumn = analyses.length + 3;
+    autoTable(doc, {
+      startY: heading(doc, category, 24),
+      margin: { left: MARGIN, right: MARGIN, top: 24 },
+      head: [['Period', 'Field', ...analyses.map(analysis => pdfText(analysis.fileName)), 'Variance', 'Verdict']],
+      body: rows.map(comparison => comparisonRow(comparison, analyses)),
+      headStyles: { fillColor: BRAND },
+      styles: { fontSize: 8, cellPadding: 1.5, overflow: 'linebreak' },
+      // Discrepancies are highlighted red and restatements purple, as on screen
+      didParseCell: (data: CellHookData) => {
+        if (data.section !== 'body') return;
+        const comparison = rows[data.row.index];
+        if (comparison.consistent) return;
+        data.cell.styles.fillColor = comparison.verdict === 'restatement' ? RESTATEMENT_FILL : DISCREPANCY_FILL;
+        if (data.column.index === verdictColumn) data.cell.styles.fontStyle = 'bold';
+      }
+    });
+  });
+};
+
+const addCheckTables = (doc: jsPDF, report: CrossCheckReport) => {
+  const failFill = (passed: boolean[]) => (data: CellHookData) => {
+    if (data.section === 'body' && !passed[data.row.index]) data.cell.styles.fillColor = DISCREPANCY_FILL;
+  };
+
+  if (report.internalChecks.length > 0) {
+    doc.addPage();
+    autoTable(doc, {
+      startY: heading(doc, 'Internal Checks', 24),
+      margin: { left: MARGIN, right: MARGIN, top: 24 },
+      head: [['Document', 'Period', 'Identity', 'Stated', 'Computed', 'Gap', 'Result']],
+      body: report.internalChecks.map(check => [
+        pdfText(check.documentName),
+        pdfText(check.periodLabel),
+        pdfText(check.expression),
+        pdfText(formatAmount(check.left, check.currency)),
+        pdfText(formatAmount(check.right, check.currency)),
+        pdfText(formatAmount(check.gap, check.currency)),
+        check.passed ? 'Holds' : 'Break'
+      ]),
+      headStyles: { fillColor: BRAND },
+      styles: { fontSize: 8 },
+      didParseCell: failFill(report.internalChecks.map(check => check.passed))
+    });
+  }
+
+  if (report.ruleResults.length > 0) {
+    // Follows the internal checks when there is room, else starts its own page
+    const follows = report.internalChecks.length > 0 && tableEnd(doc) < doc.internal.pageSize.getHeight() - 60;
+    if (!follows) doc.addPage();
+    autoTable(doc, {
+      startY: heading(doc, 'Custom Rules', follows ? tableEnd(doc) + 12 : 24),
+      margin: { left: MARGIN, right: MARGIN, top: 24 },
+      head: [['Rule', 'Period', 'Expression', 'Left', 'Right', 'Result']],
+      body: report.ruleResults.map(result => [
+        pdfText(`${result.name}${result.documentName ? ` (${result.documentName})` : ''}`),
+        pdfText(result.periodLabel),
+        pdfText(result.expression),
+        result.left.toLocaleString(),
+        result.right.toLocaleString(),
+        result.passed ? 'Pass' : 'Fail'
+      ]),
+      headStyles: { fillColor: BRAND },
+      styles: { fontSize: 8 },
+      didParseCell: failFill(report.ruleResults.map(result => result.passed))
+    });
+  }
+};
+
+const addAppendix = (doc: jsPDF, analyses: DocumentAnalysis[], settings: AnalysisSettings) => {
+  doc.addPage();
+  autoTable(doc, {
+    startY: heading(doc, 'Appendix: Extraction Status', 24),
+    margin: { left: MARGIN, right: MARGIN, top: 24 },
+    head: [['Document', 'Status', 'Figures', 'Number format', 'Document date', 'Notes']],
+    body: analyses.map(analysis => [
+      pdfText(analysis.fileName),
+      analysis.extractionStatus,
+      String(analysis.extractedFigures.length),
+      analysis.numberLocale
+        ? `${NUMBER_LOCALE_LABELS[analysis.numberLocale]}${analysis.numberLocaleSource ? ` (${analysis.numberLocaleSource})` : ''}`
+        : '',
+      analysis.documentDate ?? '',
+      pdfText(analysis.errorMessage ?? '')
+    ]),
+    headStyles: { fillColor: BRAND },
+    styles: { fontSize: 8 },
+    didParseCell: (data: CellHookData) => {
+      if (data.section === 'body' && data.column.index === 1 && analyses[data.row.index].extractionStatus !== 'success') {
+        data.cell.styles.textColor = [185, 28, 28];
+      }
+    }
+  });
+
+  // Which taxonomy fields each document reported
+  autoTable(doc, {
+    startY: heading(doc, 'Field Coverage', tableEnd(doc) + 12),
+    margin: { left: MARGIN, right: MARGIN, top: 24 },
+    head: [['Field', ...analyses.map(analysis => pdfText(analysis.fileName))]],
+    body: settings.taxonomy.fields.filter(({ field }) => field.trim()).map(({ field }) => [
+      pdfText(field),
+      ...analyses.map(analysis => analysis.extractedFigures.some(f => f.label === field) ? 'Found' : '-')
+    ]),
+    headStyles: { fillColor: BRAND },
+    styles: { fontSize: 8 }
+  });
+};
+
+// Running header and page numbers, added once every page exists
+const addPageChrome = (doc: jsPDF, generated: Date) => {
+  const pageCount = doc.getNumberOfPages();
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    if (page > 1) {
+      doc.setDrawColor(...BRAND);
+      doc.line(MARGIN, 14, width - MARGIN, 14);
+      doc.text('Document Cross-Checker', MARGIN, 11);
+      doc.text(generated.toLocaleDateString(), width - MARGIN, 11, { align: 'right' });
+    }
+    doc.text(`Page ${page} of ${pageCount}`, width / 2, height - 8, { align: 'center' });
+  }
+};
+
+export const generateReportPdf = (analyses: DocumentAnalysis[], settings: AnalysisSettings): jsPDF => {
+  const generated = new Date();
+  const report = buildCrossCheckReport(analyses, settings);
+  const { summary } = report;
+  const doc = new jsPDF({ orientation: analyses.length > 3 ? 'landscape' : 'portrait', unit: 'mm', format: 'a4' });
+
+  addCoverPage(doc, analyses, settings, generated);
+
+  doc.addPage();
+  let y = heading(doc, 'Executive Summary', 24);
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Comparisons', 'Consistent', 'Discrepancies', 'Restated', 'Material', 'Moderate', 'Trivial']],
+    body: [[
+      summary.totalComparisons,
+      summary.consistentCount,
+      summary.discrepancyCount,
+      summary.restatedCount,
+      summary.severityCounts.material,
+      summary.severityCounts.moderate,
+      summary.severityCounts.trivial
+    ].map(String)],
+    headStyles: { fillColor: BRAND, halign: 'center' },
+    bodyStyles: { halign: 'center', fontStyle: 'bold' },
+    styles: { fontSize: 10 }
+  });
+
+  y = tableEnd(doc) + 10;
+  y = bulletList(doc, 'Key Discrepancies', summary.keyDiscrepancies, y, [185, 28, 28]);
+  y = bulletList(doc, 'Restatements', summary.restatements, y, [109, 40, 217]);
+  y = bulletList(doc, 'Ambiguous Within Documents', summary.ambiguities, y, [180, 83, 9]);
+  y = bulletList(doc, 'Internal Inconsistencies', summary.internalBreaks, y, [185, 28, 28]);
+  bulletList(doc, 'Consistent Sections', summary.consistentSections, y, [21, 128, 61]);
+
+  addStatementTables(doc, analyses, report.comparisons);
+  addCheckTables(doc, report);
+  addAppendix(doc, analyses, settings);
+  addPageChrome(doc, generated);
+  return doc;
+};
+
+const comparisonValues = (comparison: ComparisonResult) =>
+  pdfText(Object.entries(comparison.values)
+    .filter((entry): entry is [string, number] => entry[1] !== null)
+    .map(([doc, value]) => `${doc}: ${formatComparisonValue(comparison, doc, value)}`)
+    .join('\n'));
+
+const comparisonTable = (doc: jsPDF, title: string, comparisons: ComparisonResult[], y: number) => {
+  autoTable(doc, {
+    startY: heading(doc, `${title} (${comparisons.length})`, y),
+    margin: { left: MARGIN, right: MARGIN, top: 24 },
+    head: [['Field', 'Period', 'Values', 'Verdict']],
+    body: comparisons.length > 0
+      ? comparisons.map(c => [
+        pdfText(c.field),
+        pdfText(c.periodLabel),
+        comparisonValues(c),
+        `${VERDICT_LABELS[c.verdict]}${c.severity ? `\n${SEVERITY_LABELS[c.severity]}` : ''}`
+      ])
+      : [[{ content: 'None', colSpan: 4, styles: { textColor: MUTED } }]],
+    headStyles: { fillColor: BRAND },
+    styles: { fontSize: 8 }
+  });
+  return tableEnd(doc) + 12;
+};
+
+export const generateRunDiffPdf = (diff: RunDiff): jsPDF => {
+  const generated = new Date();
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const width = doc.internal.pageSize.getWidth();
+  const { base, next, consistency } = diff;
+
+  doc.setFillColor(...BRAND);
+  doc.rect(0, 0, width, 40, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text('Run Comparison', MARGIN, 20);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(pdfText(`${sessionTitle(base)} (${new Date(base.createdAt).toLocaleString()})`), MARGIN, 28);
+  doc.text(pdfText(`to ${sessionTitle(next)} (${new Date(next.createdAt).toLocaleString()})`), MARGIN, 34);
+
+  const rate = (before: number, after: number, format: (value: number) => string) =>
+    [format(before), format(after), `${after - before >= 0 ? '+' : ''}${format(after - before)}`];
+  autoTable(doc, {
+    startY: heading(doc, 'Consistency', 54),
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['', 'Before', 'After', 'Change']],
+    body: [
+      ['Consistent values', ...rate(consistency.before.consistentCount, consistency.after.consistentCount, String)],
+      ['Discrepancies', ...rate(consistency.before.discrepancyCount, consistency.after.discrepancyCount, String)],
+      ['Restated', ...rate(consistency.before.restatedCount, consistency.after.restatedCount, String)],
+      ['Comparisons', ...rate(consistency.before.totalComparisons, consistency.after.totalComparisons, String)],
+      ['Consistency rate', ...rate(consistencyRate(consistency.before), consistencyRate(consistency.after), value => `${value.toFixed(1)}%`)]
+    ],
+    headStyles: { fillColor: BRAND },
+    styles: { fontSize: 9 },
+    columnStyles: { 0: { fontStyle: 'bold' } }
+  });
+
+  let y = comparisonTable(doc, 'Discrepancies Introduced', diff.introduced, tableEnd(doc) + 12);
+  y = comparisonTable(doc, 'Discrepancies Resolved', diff.resolved, y);
+  comparisonTable(doc, 'Discrepancies No Longer Compared', diff.noLongerCompared, y);
+
+  doc.addPage();
+  y = 24;
+  diff.documents.forEach(documentDiff => {
+    const title = documentDiff.status === 'matched'
+      ? `${documentDiff.documentName}${documentDiff.previousName !== documentDiff.documentName ? ` (was ${documentDiff.previousName})` : ''}`
+      : `${documentDiff.documentName} (${documentDiff.status === 'added' ? 'new document' : 'no longer included'})`;
+    if (y > doc.internal.pageSize.getHeight() - 40) {
+      doc.addPage();
+      y = 24;
+    }
+    const changes = documentDiff.changes;
+    autoTable(doc, {
+      startY: heading(doc, title, y),
+      margin: { left: MARGIN, right: MARGIN, top: 24 },
+      head: [['Change', 'Field', 'Period', 'Before', 'After', 'Location']],
+      body: changes.length > 0
+        ? changes.map(change => [
+          change.kind,
+          pdfText(change.field),
+          pdfText(change.periodLabel),
+          change.before !== null ? pdfText(formatAmount(change.before, change.currency)) : '',
+          change.after !== null ? pdfText(formatAmount(change.after, change.currency)) : '',
+          pdfText(change.location)
+        ])
+        : [[{ content: 'No figures changed', colSpan: 6, styles: { textColor: MUTED } }]],
+      headStyles: { fillColor: BRAND },
+      styles: { fontSize: 8 },
+      didParseCell: (data: CellHookData) => {
+        if (data.section === 'body' && changes.length > 0) data.cell.styles.fillColor = CHANGE_FILLS[changes[data.row.index].kind];
+      }
+    });
+    y = tableEnd(doc) + 12;
+  });
+
+  addPageChrome(doc, generated);
+  return doc;
+};
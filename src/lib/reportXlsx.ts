@@ -0,0 +1,246 @@
+import { Workbook } from 'exceljs';
+import type { CellValue, Worksheet } from 'exceljs';
+import type { AnalysisSettings, ComparisonResult, DocumentAnalysis, FxConversion } from '../types/financial';
+import { LOW_CONFIDENCE, rankAnalyses } from './candidates';
+import { DOCUMENT_ROLE_LABELS, buildCrossCheckReport, formatComparisonValue } from './comparison';
+import { describeConversion } from './fx';
+import { MATERIALITY_BASIS_LABELS, SEVERITY_LABELS, compareSeverity } from './materiality';
+import { NUMBER_LOCALE_LABELS } from './numbers';
+import { columnLetters } from './parsers/xlsx';
+import { MONTH_NAMES, formatPeriod } from './periods';
+import { STATEMENT_CATEGORIES } from './taxonomy';
+import { VERDICT_LABELS, isConsistentVerdict } from './tolerance';
+
+interface SheetColumn {
+  header: string;
+  width: number;
+  numFmt?: string;
+}
+
+const AMOUNT_FORMAT = '#,##0.00;(#,##0.00)';
+const PERCENT_FORMAT = '0.0%';
+const CONFIDENCE_FORMAT = '0.00';
+
+const BRAND_FILL = 'FF2563EB';
+const RED_FILL = 'FFFEE2E2';
+const AMBER_FILL = 'FFFEF3C7';
+
+// Sheet names are capped at 31 characters and may not contain []:*?/\
+const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+
+// A sheet with a styled, frozen and filterable header row
+const addTableSheet = (workbook: Workbook, name: string, columns: SheetColumn[], rows: CellValue[][]): Worksheet => {
+  const sheet = workbook.addWorksheet(sheetName(name), { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = columns.map(({ header, width, numFmt }) => ({ header, width, style: numFmt ? { numFmt } : {} }));
+  rows.forEach(row => sheet.addRow(row));
+
+  const header = sheet.getRow(1);
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: BRAND_FILL } };
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+  return sheet;
+};
+
+// Fills every data row whose cell in the given column satisfies the comparison
+const highlightRows = (sheet: Worksheet, column: number, condition: string, argb: string) => {
+  if (sheet.rowCount < 2) return;
+  const last = columnLetters(sheet.columnCount);
+  sheet.addConditionalFormatting({
+    ref: `A2:${last}${sheet.rowCount}`,
+    rules: [{
+      type: 'expression',
+      priority: 1,
+      formulae: [`$${columnLetters(column)}2${condition}`],
+      style: { fill: { type: 'pattern', pattern: 'solid', bgColor: { argb } } }
+    }]
+  });
+};
+
+// What the reviewer should do about a discrepancy
+const suggestion = (comparison: ComparisonResult) => {
+  if (comparison.verdict === 'currency_mismatch') {
+    const currencies = Array.from(new Set(Object.values(comparison.sources).map(f => f?.currency).filter(Boolean)));
+    return `Add an FX rate between ${currencies.join(' and ')} or choose a reporting currency`;
+  }
+  if (comparison.verdict === 'restatement') {
+    return 'Confirm the restatement and rely on the latest document';
+  }
+  const reference = comparison.referenceDocument;
+  if (reference) {
+    const deviating = Object.entries(comparison.documentVerdicts)
+      .filter(([, verdict]) => !isConsistentVerdict(verdict))
+      .map(([doc]) => doc);
+    return `Correct ${deviating.join(', ')} to ${formatComparisonValue(comparison, reference, comparison.values[reference])} per ${reference}`;
+  }
+  return `Trace ${comparison.field} to its source in each document, or mark one document as the source of truth`;
+};
+
+const percentOf = (comparison: ComparisonResult) =>
+  comparison.variance && comparison.variance.percent !== null ? comparison.variance.percent / 100 : null;
+
+export const generateReportWorkbook = (analyses: DocumentAnalysis[], settings: AnalysisSettings): Workbook => {
+  const report = buildCrossCheckReport(analyses, settings);
+  const { summary } = report;
+  const documentNames = analyses.map(a => a.fileName);
+  const workbook = new Workbook();
+  workbook.creator = 'Document Cross-Checker';
+  workbook.created = new Date();
+
+  // Summary
+  const { materiality, tolerance } = settings;
+  addTableSheet(workbook, 'Summary', [{ header: 'Item', width: 32 }, { header: 'Value', width: 90 }], [
+    ['Generated', new Date().toLocaleString()],
+    ['Documents analyzed', analyses.length],
+    ['Reporting currency', settings.currency.reportingCurrency || 'As reported'],
+    ['Fiscal year end', MONTH_NAMES[settings.period.fiscalYearEndMonth - 1]],
+    ['Tolerance', `${tolerance.relativePercent}% relative, ${tolerance.absolute.toLocaleString()} absolute${tolerance.roundingAware ? ', rounding-aware' : ''}`],
+    ['Materiality', `${materiality.basis === 'amount' ? materiality.amount.toLocaleString() : `${materiality.percent}${MATERIALITY_BASIS_LABELS[materiality.basis]}`}, trivial below ${materiality.trivialPercent}% of it`],
+    ['Total comparisons', summary.totalComparisons],
+    ['Consistent values', summary.consistentCount],
+    ['Discrepancies found', summary.discrepancyCount],
+    ['Restated values', summary.restatedCount],
+    ['Material', summary.severityCounts.material],
+    ['Moderate', summary.severityCounts.moderate],
+    ['Trivial', summary.severityCounts.trivial],
+    ['Internal inconsistencies', summary.internalBreaks.length],
+    ['Custom rules failed', report.ruleResults.filter(result => !result.passed).length],
+    ...summary.keyDiscrepancies.map((discrepancy, index) => [index === 0 ? 'Key discrepancies' : '', discrepancy]),
+    ...summary.restatements.map((restatement, index) => [index === 0 ? 'Restatements' : '', restatement]),
+    ...summary.ambiguities.map((ambiguity, index) => [index === 0 ? 'Ambiguous within documents' : '', ambiguity]),
+    ...summary.internalBreaks.map((internalBreak, index) => [index === 0 ? 'Internal inconsistencies' : '', internalBreak])
+  ]);
+
+  // One sheet per statement, values side by side
+  const statementColumns: SheetColumn[] = [
+    { header: 'Period', width: 20 },
+    { header: 'Period End', width: 12 },
+    { header: 'Field', width: 28 },
+    ...documentNames.map(name => ({ header: name, width: 18, numFmt: AMOUNT_FORMAT })),
+    ...documentNames.map(name => ({ header: `${name} Location`, width: 30 })),
+    ...documentNames.map(name => ({ header: `${name} Confidence`, width: 12, numFmt: CONFIDENCE_FORMAT })),
+    { header: 'Currency', width: 10 },
+    { header: 'Variance', width: 16, numFmt: AMOUNT_FORMAT },
+    { header: 'Variance %', width: 11, numFmt: PERCENT_FORMAT },
+    { header: 'Materiality', width: 16, numFmt: AMOUNT_FORMAT },
+    { header: 'Severity', width: 11 },
+    { header: 'Verdict', width: 20 },
+    { header: 'Consistent', width: 11 },
+    { header: 'Source of Truth', width: 20 },
+    { header: 'Corrected Value', width: 16, numFmt: AMOUNT_FORMAT },
+    { header: 'FX Applied', width: 40 },
+    { header: 'Ambiguous In', width: 20 }
+  ];
+  const consistentColumn = statementColumns.findIndex(column => column.header === 'Consistent') + 1;
+
+  STATEMENT_CATEGORIES.forEach(category => {
+    const comparisons = report.comparisons.filter(c => c.category === category);
+    const sheet = addTableSheet(workbook, category, statementColumns, comparisons.map(c => [
+      c.periodLabel,
+      c.periodEnd,
+      c.field,
+      ...documentNames.map(name => c.values[name]),
+      ...documentNames.map(name => c.sources[name]?.location ?? null),
+      ...documentNames.map(name => c.sources[name]?.confidence ?? null),
+      c.currency ?? 'Mixed',
+      c.variance?.absolute ?? null,
+      percentOf(c),
+      c.materiality,
+      c.severity ? SEVERITY_LABELS[c.severity] : null,
+      VERDICT_LABELS[c.verdict],
+      c.consistent ? 'Yes' : 'No',
+      c.referenceDocument,
+      c.referenceDocument && !c.consistent ? c.values[c.referenceDocument] : null,
+      Object.entries(c.conversions)
+        .filter((entry): entry is [string, FxConversion] => entry[1] !== null)
+        .map(([doc, conversion]) => `${doc}: ${describeConversion(conversion)}`)
+        .join('; '),
+      Object.keys(c.alternatives).join('; ')
+    ]));
+    highlightRows(sheet, consistentColumn, '="No"', RED_FILL);
+  });
+
+  // Every figure read, including lower-ranked readings
+  const figures = rankAnalyses(analyses, settings.period).flatMap(analysis => analysis.extractedFigures);
+  const figureSheet = addTableSheet(workbook, 'Raw Extracted Figures', [
+    { header: 'Document', width: 24 },
+    { header: 'Category', width: 20 },
+    { header: 'Field', width: 28 },
+    { header: 'Label in Document', width: 28 },
+    { header: 'Period', width: 14 },
+    { header: 'Value', width: 18, numFmt: AMOUNT_FORMAT },
+    { header: 'Currency', width: 10 },
+    { header: 'As Written', width: 16 },
+    { header: 'Multiplier', width: 12, numFmt: '#,##0' },
+    { header: 'Location', width: 36 },
+    { header: 'Confidence', width: 12, numFmt: CONFIDENCE_FORMAT },
+    { header: 'Rank', width: 8 }
+  ], figures.map(figure => [
+    figure.documentName,
+    figure.category,
+    figure.label,
+    figure.matchedLabel ?? null,
+    formatPeriod(figure.period, settings.period),
+    figure.value,
+    figure.currency || null,
+    figure.rawText,
+    figure.multiplier,
+    figure.location,
+    figure.confidence,
+    figure.rank ?? 1
+  ]));
+  highlightRows(figureSheet, 11, `<${LOW_CONFIDENCE}`, AMBER_FILL);
+
+  // Discrepancies only, most severe first
+  const discrepancies = report.comparisons
+    .filter(c => !c.consistent)
+    .sort((a, b) => compareSeverity(a.severity, b.severity) || (b.variance?.absolute ?? 0) - (a.variance?.absolute ?? 0));
+  const discrepancySheet = addTableSheet(workbook, 'Discrepancies', [
+    { header: 'Severity', width: 11 },
+    { header: 'Category', width: 20 },
+    { header: 'Period', width: 20 },
+    { header: 'Field', width: 28 },
+    ...documentNames.map(name => ({ header: name, width: 18, numFmt: AMOUNT_FORMAT })),
+    { header: 'Currency', width: 10 },
+    { header: 'Variance', width: 16, numFmt: AMOUNT_FORMAT },
+    { header: 'Variance %', width: 11, numFmt: PERCENT_FORMAT },
+    { header: 'Materiality', width: 16, numFmt: AMOUNT_FORMAT },
+    { header: 'Verdict', width: 20 },
+    { header: 'Suggestion', width: 70 }
+  ], discrepancies.map(c => [
+    c.severity ? SEVERITY_LABELS[c.severity] : null,
+    c.category,
+    c.periodLabel,
+    c.field,
+    ...documentNames.map(name => c.values[name]),
+    c.currency ?? 'Mixed',
+    c.variance?.absolute ?? null,
+    percentOf(c),
+    c.materiality,
+    VERDICT_LABELS[c.verdict],
+    suggestion(c)
+  ]));
+  highlightRows(discrepancySheet, 1, `="${SEVERITY_LABELS.material}"`, RED_FILL);
+
+  const statusSheet = addTableSheet(workbook, 'Document Status', [
+    { header: 'Document', width: 30 },
+    { header: 'Role', width: 16 },
+    { header: 'Status', width: 10 },
+    { header: 'Figures', width: 10 },
+    { header: 'Number Format', width: 24 },
+    { header: 'Document Date', width: 14 },
+    { header: 'Error', width: 50 }
+  ], analyses.map(analysis => [
+    analysis.fileName,
+    analysis.role ? DOCUMENT_ROLE_LABELS[analysis.role] : 'Peer',
+    analysis.extractionStatus,
+    analysis.extractedFigures.length,
+    analysis.numberLocale
+      ? `${NUMBER_LOCALE_LABELS[analysis.numberLocale]}${analysis.numberLocaleSource ? ` (${analysis.numberLocaleSource})` : ''}`
+      : null,
+    analysis.documentDate ?? null,
+    analysis.errorMessage ?? null
+  ]));
+  highlightRows(statusSheet, 3, '<>"success"', RED_FILL);
+
+  return workbook;
+};
@@ -0,0 +1,241 @@
+import type { AnalysisResultsFile, AnalysisSettings, CustomRule, DocumentAnalysis, ExtractedFigure, StatementCategory } from '../types/financial';
+import { DEFAULT_SETTINGS, DOCUMENT_ROLE_LABELS, buildCrossCheckReport } from './comparison';
+import { MATERIALITY_BASIS_LABELS } from './materiality';
+import { NUMBER_LOCALE_LABELS } from './numbers';
+import { STATEMENT_CATEGORIES, validateTaxonomy } from './taxonomy';
+
+export const RESULTS_SCHEMA = 'document-cross-checker/analysis-results';
+export const RESULTS_SCHEMA_VERSION = 1;
+
+const EXTRACTION_STATUSES = ['success', 'partial', 'failed'];
+const PERIOD_TYPES = ['fiscal_year', 'quarter', 'half', 'month', 'ytd', 'ltm', 'point_in_time'];
+const PERIOD_SOURCES = ['header', 'nearby', 'document'];
+const SCALE_SOURCES = ['inline', 'section', 'format', 'none'];
+const CURRENCY_SOURCES = ['inline', 'section', 'assumed'];
+const DOCUMENT_PARTS = ['body', 'header', 'footer', 'footnotes'];
+const OPTIONAL_TEXT = ['periodEvidence', 'matchedLabel', 'scaleEvidence', 'currencyEvidence'];
+const OPTIONAL_NUMBERS = ['periodDistance', 'rank', 'textQuality', 'precision'];
+
+export const buildResultsFile = (analyses: DocumentAnalysis[], settings: AnalysisSettings): AnalysisResultsFile => {
+  const { comparisons, summary } = buildCrossCheckReport(analyses, settings);
+  return {
+    schema: RESULTS_SCHEMA,
+    version: RESULTS_SCHEMA_VERSION,
+    appVersion: __APP_VERSION__,
+    exportedAt: new Date().toISOString(),
+    settings,
+    analyses,
+    comparisons,
+    summary
+  };
+};
+
+export const serializeResults = (analyses: DocumentAnalysis[], settings: AnalysisSettings) =>
+  JSON.stringify(buildResultsFile(analyses, settings), null, 2);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isWholeNumber = (value: unknown, min: number, max: number) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const checkPeriod = (raw: unknown, where: string) => {
+  if (!isObject(raw) || !PERIOD_TYPES.includes(String(raw.type)) || !isWholeNumber(raw.year, 0, 9999)) {
+    throw new Error(`${where}: "period" must have a type (${PERIOD_TYPES.join(', ')}) and a year`);
+  }
+  const ranges: [string, number, number][] = [['quarter', 1, 4], ['half', 1, 2], ['month', 1, 12], ['day', 1, 31], ['yearEndMonth', 1, 12]];
+  ranges.forEach(([key, min, max]) => {
+    if (raw[key] !== undefined && !isWholeNumber(raw[key], min, max)) {
+      throw new Error(`${where}: period "${key}" must be a whole number from ${min} to ${max}`);
+    }
+  });
+};
+
+// The viewer reads anchors directly, so each kind must carry the position it describes
+const checkAnchor = (raw: unknown, where: string) => {
+  if (raw === undefined) return;
+  const valid = isObject(raw) && (
+    (raw.kind === 'cell' && typeof raw.sheet === 'string' && typeof raw.cell === 'string' && isNumber(raw.row) && isNumber(raw.column)) ||
+    (raw.kind === 'paragraph' && DOCUMENT_PARTS.includes(String(raw.part)) && isNumber(raw.paragraph)) ||
+    (raw.kind === 'table-cell' && isNumber(raw.table) && isNumber(raw.row) && isNumber(raw.column)) ||
+    (raw.kind === 'pdf' && isNumber(raw.page) && isObject(raw.box) &&
+      ['x', 'y', 'width', 'height'].every(key => isNumber((raw.box as Record<string, unknown>)[key])))
+  );
+  if (!valid) throw new Error(`${where}: "anchor" is not a cell, paragraph, table cell or PDF position`);
+};
+
+const checkFigure = (raw: unknown, where: string): ExtractedFigure => {
+  if (!isObject(raw)) throw new Error(`${where}: expected an object`);
+  if (typeof raw.label !== 'string' || !raw.label) throw new Error(`${where}: "label" must be a field name`);
+  if (!isNumber(raw.value)) throw new Error(`${where}: "value" must be a number`);
+  if (!STATEMENT_CATEGORIES.includes(raw.category as StatementCategory)) {
+    throw new Error(`${where}: "category" must be one of ${STATEMENT_CATEGORIES.join(', ')}`);
+  }
+  checkPeriod(raw.period, where);
+  if (typeof raw.documentName !== 'string' || typeof raw.location !== 'string' || typeof raw.rawText !== 'string') {
+    throw new Error(`${where}: "documentName", "location" and "rawText" must be text`);
+  }
+  if (!isNumber(raw.confidence) || raw.confidence < 0 || raw.confidence > 1) {
+    throw new Error(`${where}: "confidence" must be a number from 0 to 1`);
+  }
+  if (!isNumber(raw.multiplier) || raw.multiplier <= 0) throw new Error(`${where}: "multiplier" must be a positive number`);
+  if (typeof raw.currency !== 'string') throw new Error(`${where}: "currency" must be text`);
+  if (!SCALE_SOURCES.includes(String(raw.scaleSource))) {
+    throw new Error(`${where}: "scaleSource" must be one of ${SCALE_SOURCES.join(', ')}`);
+  }
+  if (!CURRENCY_SOURCES.includes(String(raw.currencySource))) {
+    throw new Error(`${where}: "currencySource" must be one of ${CURRENCY_SOURCES.join(', ')}`);
+  }
+  if (raw.periodSource !== undefined && !PERIOD_SOURCES.includes(String(raw.periodSource))) {
+    throw new Error(`${where}: "periodSource" must be one of ${PERIOD_SOURCES.join(', ')}`);
+  }
+  OPTIONAL_TEXT.forEach(key => {
+    if (raw[key] !== undefined && typeof raw[key] !== 'string') throw new Error(`${where}: "${key}" must be text`);
+  });
+  OPTIONAL_NUMBERS.forEach(key => {
+    if (raw[key] !== undefined && !isNumber(raw[key])) throw new Error(`${where}: "${key}" must be a number`);
+  });
+  checkAnchor(raw.anchor, where);
+  return raw as unknown as ExtractedFigure;
+};
+
+const checkNumbers = (raw: Record<string, unknown>, keys: string[], where: string) => {
+  keys.forEach(key => {
+    if (raw[key] !== undefined && (!isNumber(raw[key]) || (raw[key] as number) < 0)) {
+      throw new Error(`${where}: "${key}" must be a number of 0 or more`);
+    }
+  });
+};
+
+const checkSection = (raw: unknown, where: string): Record<string, unknown> | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) throw new Error(`${where}: expected an object`);
+  return raw;
+};
+
+// Settings saved by an older version may lack newer sections; those fall back to the defaults.
+// Sections that are present are checked, since the report reads them without further guards.
+const mergeSettings = (raw: unknown): AnalysisSettings => {
+  const saved = isObject(raw) ? raw : {};
+
+  const tolerance = checkSection(saved.tolerance, 'Settings tolerance');
+  if (tolerance) {
+    checkNumbers(tolerance, ['absolute', 'relativePercent'], 'Settings tolerance');
+    if (tolerance.roundingAware !== undefined && typeof tolerance.roundingAware !== 'boolean') {
+      throw new Error('Settings tolerance: "roundingAware" must be true or false');
+    }
+  }
+
+  const currency = checkSection(saved.currency, 'Settings currency');
+  if (currency) {
+    if (currency.reportingCurrency !== undefined && currency.reportingCurrency !== null && typeof currency.reportingCurrency !== 'string') {
+      throw new Error('Settings currency: "reportingCurrency" must be a currency code or null');
+    }
+    if (currency.fxRates !== undefined && !(Array.isArray(currency.fxRates) && currency.fxRates.every(rate =>
+      isObject(rate) && typeof rate.date === 'string' && typeof rate.from === 'string' && typeof rate.to === 'string' &&
+      isNumber(rate.rate) && rate.rate > 0))) {
+      throw new Error('Settings currency: "fxRates" must list rates with a date, from and to currencies and a positive rate');
+    }
+  }
+
+  const period = checkSection(saved.period, 'Settings period');
+  if (period?.fiscalYearEndMonth !== undefined && !isWholeNumber(period.fiscalYearEndMonth, 1, 12)) {
+    throw new Error('Settings period: "fiscalYearEndMonth" must be a month from 1 to 12');
+  }
+
+  let taxonomy = DEFAULT_SETTINGS.taxonomy;
+  if (saved.taxonomy !== undefined) {
+    try {
+      taxonomy = validateTaxonomy(saved.taxonomy);
+    } catch (error) {
+      throw new Error(`Settings taxonomy: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // A rule that cannot be read is dropped rather than failing the whole file
+  const rules = Array.isArray(saved.rules)
+    ? (saved.rules as unknown[]).filter((rule): rule is CustomRule =>
+      isObject(rule) && typeof rule.id === 'string' && typeof rule.name === 'string' && typeof rule.expression === 'string')
+    : DEFAULT_SETTINGS.rules;
+
+  const materiality = checkSection(saved.materiality, 'Settings materiality');
+  if (materiality) {
+    if (materiality.basis !== undefined && !(String(materiality.basis) in MATERIALITY_BASIS_LABELS)) {
+      throw new Error(`Settings materiality: "basis" must be one of ${Object.keys(MATERIALITY_BASIS_LABELS).join(', ')}`);
+    }
+    checkNumbers(materiality, ['amount', 'percent', 'trivialPercent'], 'Settings materiality');
+    const thresholds = checkSection(materiality.fieldThresholds, 'Settings materiality "fieldThresholds"');
+    if (thresholds) checkNumbers(thresholds, Object.keys(thresholds), 'Settings materiality "fieldThresholds"');
+  }
+
+  return {
+    ...DEFAULT_SETTINGS,
+    tolerance: { ...DEFAULT_SETTINGS.tolerance, ...tolerance },
+    currency: { ...DEFAULT_SETTINGS.currency, ...currency },
+    period: { ...DEFAULT_SETTINGS.period, ...period },
+    taxonomy,
+    rules,
+    materiality: { ...DEFAULT_SETTINGS.materiality, ...materiality }
+  } as AnalysisSettings;
+};
+
+// Accepts the shape written by serializeResults; comparisons and summary are rebuilt from the analyses on open
+export const parseResults = (content: string): AnalysisResultsFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Unable to read JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!isObject(data) || data.schema !== RESULTS_SCHEMA) {
+    throw new Error('Not an analysis results file');
+  }
+  if (typeof data.version !== 'number' || data.version > RESULTS_SCHEMA_VERSION) {
+    throw new Error(`Results file version ${String(data.version)} is newer than this app supports (${RESULTS_SCHEMA_VERSION})`);
+  }
+  if (!Array.isArray(data.analyses) || data.analyses.length === 0) {
+    throw new Error('Expected an "analyses" list with at least one document');
+  }
+
+  const analyses = data.analyses.map((raw, index): DocumentAnalysis => {
+    const entry = isObject(raw) ? raw : {};
+    const name = typeof entry.fileName === 'string' ? entry.fileName : '';
+    const where = `Document ${index + 1}${name ? ` ("${name}")` : ''}`;
+
+    if (!name) throw new Error(`${where}: "fileName" must be a non-empty name`);
+    if (!EXTRACTION_STATUSES.includes(String(entry.extractionStatus))) {
+      throw new Error(`${where}: "extractionStatus" must be one of ${EXTRACTION_STATUSES.join(', ')}`);
+    }
+    if (!Array.isArray(entry.extractedFigures)) throw new Error(`${where}: "extractedFigures" must be a list`);
+    if (entry.numberLocale !== undefined && !(String(entry.numberLocale) in NUMBER_LOCALE_LABELS)) {
+      throw new Error(`${where}: "numberLocale" must be one of ${Object.keys(NUMBER_LOCALE_LABELS).join(', ')}`);
+    }
+    if (entry.role !== undefined && !(String(entry.role) in DOCUMENT_ROLE_LABELS)) {
+      throw new Error(`${where}: "role" must be one of ${Object.keys(DOCUMENT_ROLE_LABELS).join(', ')}`);
+    }
+    if (entry.documentDate !== undefined && (typeof entry.documentDate !== 'string' || isNaN(Date.parse(entry.documentDate)))) {
+      throw new Error(`${where}: "documentDate" must be a date`);
+    }
+
+    return {
+      ...(entry as unknown as DocumentAnalysis),
+      extractedFigures: entry.extractedFigures.map((figure, figureIndex) => checkFigure(figure, `${where}, figure ${figureIndex + 1}`))
+    };
+  });
+
+  const settings = mergeSettings(data.settings);
+  const { comparisons, summary } = buildCrossCheckReport(analyses, settings);
+  return {
+    schema: RESULTS_SCHEMA,
+    version: data.version,
+    appVersion: typeof data.appVersion === 'string' ? data.appVersion : 'unknown',
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    settings,
+    analyses,
+    comparisons,
+    summary
+  };
+};
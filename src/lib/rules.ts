@@ -0,0 +1,376 @@
+import type {
+  AnalysisSettings,
+  CustomRule,
+  CustomRuleResult,
+  DocumentAnalysis,
+  DocumentRole,
+  ExtractedFigure,
+  Period,
+  StatementCategory
+} from '../types/financial';
+import { comparisonPeriodLabel, findPeriodMentions, periodKey } from './periods';
+import { assessConsistency, isConsistentVerdict } from './tolerance';
+
+// Rules compare two arithmetic expressions over extracted figures, e.g.
+//   {Net Debt @cim} = {Total Debt @model} - {Cash and Equivalents @model}
+//   {EBITDA} / {Revenue} >= 0.2
+//   {Revenue @deck} = {Revenue @audited} within 0.5%
+//   {EBITDA @cim} / {Revenue @cim} = 0.24 (fails for a margin of 0.2; only two bare references allow rounding)
+// A reference names a field, optionally a document (@ followed by a role or part of its file name) and a period
+// (# followed by "prior" or a period such as FY2023). References without a document are read from each
+// document in turn; references without a period are read for each period the figures cover.
+
+export type RuleExpression =
+  | { kind: 'number'; value: number }
+  | { kind: 'reference'; text: string; field: string; document?: string; period?: string }
+  | { kind: 'negate'; operand: RuleExpression }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: RuleExpression; right: RuleExpression }
+  | { kind: 'call'; name: 'abs' | 'min' | 'max'; args: RuleExpression[] };
+
+export type RuleComparator = '=' | '<=' | '>=' | '<' | '>';
+
+export interface RuleTolerance {
+  amount: number;
+  unit: 'absolute' | 'percent' | 'points';
+}
+
+export interface ParsedRule {
+  left: RuleExpression;
+  comparator: RuleComparator;
+  right: RuleExpression;
+  tolerance?: RuleTolerance;
+}
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'reference'; text: string; position: number }
+  | { type: 'word'; text: string; position: number }
+  | { type: 'symbol'; text: string; position: number };
+
+const FUNCTIONS = ['abs', 'min', 'max'];
+const COMPARATORS: RuleComparator[] = ['=', '<=', '>=', '<', '>'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+
+    if (rest[0] === '{') {
+      const end = source.indexOf('}', position);
+      if (end === -1) throw new Error(`Unclosed "{" at position ${position + 1}`);
+      tokens.push({ type: 'reference', text: source.slice(position + 1, end), position });
+      position = end + 1;
+      continue;
+    }
+
+    const number = /^\d+(?:\.\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]), position });
+      position += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z]+/.exec(rest);
+    if (word) {
+      tokens.push({ type: 'word', text: word[0].toLowerCase(), position });
+      position += word[0].length;
+      continue;
+    }
+
+    const symbol = /^(?:<=|>=|==|[-+*/(),=<>%−×÷])/.exec(rest);
+    if (!symbol) throw new Error(`Unexpected "${rest[0]}" at position ${position + 1}`);
+    const normalised = { '−': '-', '×': '*', '÷': '/', '==': '=' }[symbol[0]] ?? symbol[0];
+    tokens.push({ type: 'symbol', text: normalised, position });
+    position += symbol[0].length;
+  }
+
+  return tokens;
+};
+
+const parseReference = (text: string): RuleExpression => {
+  const match = /^([^@#]+?)\s*(?:@\s*([^#]+?))?\s*(?:#\s*(.+?))?\s*$/.exec(text);
+  if (!match || !match[1].trim()) throw new Error(`"{${text}}" does not name a field`);
+  return { kind: 'reference', text: `{${text}}`, field: match[1].trim(), document: match[2]?.trim(), period: match[3]?.trim() };
+};
+
+export const parseRule = (source: string): ParsedRule => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const describe = (token: Token | undefined) => token
+    ? `"${token.type === 'number' ? token.value : token.text}" at position ${token.position + 1}`
+    : 'end of rule';
+  const isSymbol = (text: string) => peek()?.type === 'symbol' && (peek() as { text: string }).text === text;
+  const expect = (text: string) => {
+    if (!isSymbol(text)) throw new Error(`Expected "${text}" but found ${describe(peek())}`);
+    index++;
+  };
+
+  // Declared as functions because a bracketed value recurses back into the sum
+  function parsePrimary(): RuleExpression {
+    const token = peek();
+    if (!token) throw new Error('Rule ends where a value was expected');
+    index++;
+
+    if (token.type === 'number') return { kind: 'number', value: token.value };
+    if (token.type === 'reference') return parseReference(token.text);
+    if (token.type === 'symbol' && token.text === '-') return { kind: 'negate', operand: parsePrimary() };
+    if (token.type === 'symbol' && token.text === '(') {
+      const inner = parseSum();
+      expect(')');
+      return inner;
+    }
+    if (token.type === 'word' && FUNCTIONS.includes(token.text)) {
+      expect('(');
+      const args = [parseSum()];
+      while (isSymbol(',')) {
+        index++;
+        args.push(parseSum());
+      }
+      expect(')');
+      if (token.text === 'abs' && args.length !== 1) throw new Error('abs() takes one value');
+      return { kind: 'call', name: token.text as 'abs' | 'min' | 'max', args };
+    }
+    throw new Error(`Unexpected ${describe(token)}; fields are written in braces, e.g. {Revenue}`);
+  }
+
+  function parseProduct(): RuleExpression {
+    let left = parsePrimary();
+    while (isSymbol('*') || isSymbol('/')) {
+      const operator = (tokens[index++] as { text: string }).text as '*' | '/';
+      left = { kind: 'binary', operator, left, right: parsePrimary() };
+    }
+    return left;
+  }
+
+  function parseSum(): RuleExpression {
+    let left = parseProduct();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = (tokens[index++] as { text: string }).text as '+' | '-';
+      left = { kind: 'binary', operator, left, right: parseProduct() };
+    }
+    return left;
+  }
+
+  const left = parseSum();
+  const comparatorToken = peek();
+  if (comparatorToken?.type !== 'symbol' || !COMPARATORS.includes(comparatorToken.text as RuleComparator)) {
+    throw new Error(`Expected a comparison (=, <=, >=, <, >) but found ${describe(comparatorToken)}`);
+  }
+  index++;
+  const right = parseSum();
+
+  let tolerance: RuleTolerance | undefined;
+  const within = peek();
+  if (within?.type === 'word' && within.text === 'within') {
+    index++;
+    const amount = peek();
+    if (amount?.type !== 'number') throw new Error(`Expected a number after "within" but found ${describe(amount)}`);
+    index++;
+    tolerance = { amount: amount.value, unit: 'absolute' };
+    const unit = peek();
+    if (unit?.type === 'symbol' && unit.text === '%') {
+      tolerance.unit = 'percent';
+      index++;
+    } else if (unit?.type === 'word' && unit.text === 'pp') {
+      tolerance.unit = 'points';
+      index++;
+    }
+  }
+
+  if (index < tokens.length) throw new Error(`Unexpected ${describe(peek())}`);
+  return { left, comparator: comparatorToken.text as RuleComparator, right, tolerance };
+};
+
+export const ruleError = (source: string): string | null => {
+  try {
+    parseRule(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+const references = (expression: RuleExpression): Extract<RuleExpression, { kind: 'reference' }>[] => {
+  switch (expression.kind) {
+    case 'reference': return [expression];
+    case 'negate': return references(expression.operand);
+    case 'binary': return [...references(expression.left), ...references(expression.right)];
+    case 'call': return expression.args.flatMap(references);
+    default: return [];
+  }
+};
+
+// Role selectors name the documents given that role on the upload list
+const ROLE_SELECTORS: Record<string, DocumentRole> = {
+  source: 'source_of_truth',
+  reference: 'source_of_truth',
+  derived: 'derived',
+  draft: 'draft'
+};
+
+// A document selector is a role (@source, @derived, @draft) or part of a file name
+export const matchesDocument = (selector: string, analysis: DocumentAnalysis) => {
+  const role = ROLE_SELECTORS[selector.toLowerCase()];
+  if (role && analysis.role === role) return true;
+  return analysis.fileName.toLowerCase().includes(selector.toLowerCase());
+};
+
+interface Operand {
+  reference: string;
+  field: string;
+  documentName: string;
+  value: number;
+  location: string;
+}
+
+export const evaluateRules = (
+  analyses: DocumentAnalysis[],
+  rules: CustomRule[],
+  settings: AnalysisSettings
+): CustomRuleResult[] => {
+  const results: CustomRuleResult[] = [];
+  const figures = analyses.flatMap(analysis =>
+    analysis.extractedFigures.filter(figure => (figure.rank ?? 1) === 1).map(figure => ({ analysis, figure })));
+  const keyOf = (figure: ExtractedFigure, period: Period = figure.period) =>
+    periodKey(period, figure.category as StatementCategory, settings.period);
+
+  rules.filter(rule => rule.expression.trim()).forEach(rule => {
+    let parsed: ParsedRule;
+    try {
+      parsed = parseRule(rule.expression);
+    } catch {
+      return;
+    }
+    const refs = [...references(parsed.left), ...references(parsed.right)];
+    const sameField = (figure: ExtractedFigure, field: string) => figure.label.toLowerCase() === field.toLowerCase();
+
+    // Each document a rule reads unqualified references from, and each period its figures cover
+    const boundDocuments = refs.some(ref => !ref.document) ? analyses : [undefined];
+    const periods = new Map<string, Period>();
+    figures
+      .filter(({ figure }) => refs.some(ref => !ref.period && sameField(figure, ref.field)))
+      .forEach(({ figure }) => periods.set(keyOf(figure), figure.period));
+    if (periods.size === 0) periods.set('', { type: 'fiscal_year', year: 0 });
+
+    const seen = new Set<string>();
+    boundDocuments.forEach(bound => {
+      periods.forEach(period => {
+        const operands: Operand[] = [];
+
+        const resolve = (ref: Extract<RuleExpression, { kind: 'reference' }>): number | null => {
+          const candidates = figures.filter(({ analysis, figure }) =>
+            sameField(figure, ref.field) &&
+            (ref.document ? matchesDocument(ref.document, analysis) : analysis === bound));
+
+          let found: { analysis: DocumentAnalysis; figure: ExtractedFigure } | undefined;
+          if (ref.period && ref.period.toLowerCase() !== 'prior') {
+            const stated = findPeriodMentions(ref.period)[0]?.period;
+            found = stated && candidates.find(({ figure }) => keyOf(figure) === keyOf(figure, stated));
+          } else {
+            const target = ref.period ? { ...period, year: period.year - 1 } : period;
+            found = candidates.find(({ figure }) => keyOf(figure) === keyOf(figure, target));
+          }
+          if (!found) return null;
+
+          operands.push({
+            reference: ref.text,
+            field: found.figure.label,
+            documentName: found.analysis.fileName,
+            value: found.figure.value,
+            location: found.figure.location
+          });
+          return found.figure.value;
+        };
+
+        const evaluate = (expression: RuleExpression): number | null => {
+          switch (expression.kind) {
+            case 'number': return expression.value;
+            case 'reference': return resolve(expression);
+            case 'negate': {
+              const value = evaluate(expression.operand);
+              return value === null ? null : -value;
+            }
+            case 'binary': {
+              const left = evaluate(expression.left);
+              const right = evaluate(expression.right);
+              if (left === null || right === null) return null;
+              if (expression.operator === '+') return left + right;
+              if (expression.operator === '-') return left - right;
+              if (expression.operator === '*') return left * right;
+              return right === 0 ? null : left / right;
+            }
+            case 'call': {
+              const args = expression.args.map(evaluate);
+              if (args.some(arg => arg === null)) return null;
+              const values = args as number[];
+              if (expression.name === 'abs') return Math.abs(values[0]);
+              return expression.name === 'min' ? Math.min(...values) : Math.max(...values);
+            }
+          }
+        };
+
+        const left = evaluate(parsed.left);
+        const right = evaluate(parsed.right);
+        if (left === null || right === null) return;
+
+        // The same operands reached through another document or period are reported once
+        const signature = operands.map(operand => `${operand.documentName}|${operand.reference}|${operand.value}`).join(';');
+        if (seen.has(signature)) return;
+        seen.add(signature);
+
+        const difference = left - right;
+        let withinTolerance: boolean;
+        if (parsed.tolerance?.unit === 'percent') {
+          withinTolerance = Math.abs(difference) <= (Math.abs(right) * parsed.tolerance.amount) / 100;
+        } else if (parsed.tolerance) {
+          // Percentage points compare ratios, so 0.5pp allows 0.005 either way
+          const allowed = parsed.tolerance.unit === 'points' ? parsed.tolerance.amount / 100 : parsed.tolerance.amount;
+          withinTolerance = Math.abs(difference) <= allowed + 1e-9;
+        } else {
+          // Rounding allowance fits two figures as stated; a computed side such as a ratio has no stated
+          // precision, and inferring one would let 0.2 pass against 0.24
+          const stated = parsed.left.kind === 'reference' && parsed.right.kind === 'reference';
+          withinTolerance = isConsistentVerdict(assessConsistency(
+            [{ value: left }, { value: right }],
+            { ...settings.tolerance, roundingAware: settings.tolerance.roundingAware && stated }
+          ));
+        }
+
+        const passed = {
+          '=': withinTolerance,
+          '<=': left <= right || withinTolerance,
+          '>=': left >= right || withinTolerance,
+          '<': left < right,
+          '>': left > right
+        }[parsed.comparator];
+
+        const dated = figures.find(({ figure }) => refs.some(ref => !ref.period && sameField(figure, ref.field)))?.figure;
+        results.push({
+          ruleId: rule.id,
+          name: rule.name || rule.expression,
+          expression: rule.expression,
+          documentName: bound?.fileName,
+          periodLabel: period.year === 0 || !dated
+            ? 'As stated'
+            : comparisonPeriodLabel(period, dated.category as StatementCategory, settings.period),
+          left,
+          right,
+          difference,
+          passed,
+          operands
+        });
+      });
+    });
+  });
+
+  return results;
+};
@@ -0,0 +1,144 @@
+import type {
+  AnalysisSession,
+  ComparisonResult,
+  ConsistencyTally,
+  DocumentAnalysis,
+  DocumentDiff,
+  ExtractedFigure,
+  FigureChange,
+  PeriodSettings,
+  RunDiff,
+  StatementCategory
+} from '../types/financial';
+import { rankCandidates } from './candidates';
+import { comparisonPeriodLabel, periodKey } from './periods';
+
+// "CIM v2 (final).pdf" and "CIM_v1.pdf" are versions of the same document
+export const documentStem = (fileName: string) =>
+  fileName
+    .toLowerCase()
+    .replace(/\.[a-z0-9]+$/, '')
+    .replace(/_/g, ' ')
+    .replace(/\b(?:v|ver|version|rev|revision)[\s_-]*\d+\b/g, ' ')
+    .replace(/\b(?:draft|final|updated|clean|redline)\b/g, ' ')
+    .replace(/\b(?:19|20)\d{2}[-_.]?\d{2}[-_.]?\d{2}\b/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Same name first, then same name once version markers are removed
+const pairDocuments = (before: DocumentAnalysis[], after: DocumentAnalysis[]) => {
+  const pairs: [DocumentAnalysis | null, DocumentAnalysis | null][] = [];
+  const unmatched = [...before];
+  const take = (predicate: (candidate: DocumentAnalysis) => boolean) => {
+    const index = unmatched.findIndex(predicate);
+    return index === -1 ? null : unmatched.splice(index, 1)[0];
+  };
+
+  const pending = after.filter(doc => {
+    const same = take(candidate => candidate.fileName === doc.fileName);
+    if (same) pairs.push([same, doc]);
+    return !same;
+  });
+  pending.forEach(doc => {
+    pairs.push([take(candidate => documentStem(candidate.fileName) === documentStem(doc.fileName)), doc]);
+  });
+  unmatched.forEach(doc => pairs.push([doc, null]));
+  return pairs;
+};
+
+const figureKey = (figure: ExtractedFigure, settings: PeriodSettings) =>
+  `${figure.label}|${periodKey(figure.period, figure.category as StatementCategory, settings)}`;
+
+// The reading each document is compared on, keyed by field and period
+const comparedFigures = (analysis: DocumentAnalysis | null, settings: PeriodSettings) => {
+  const figures = new Map<string, ExtractedFigure>();
+  rankCandidates(analysis?.extractedFigures ?? [], settings)
+    .filter(figure => figure.rank === 1)
+    .forEach(figure => {
+      const key = figureKey(figure, settings);
+      if (!figures.has(key)) figures.set(key, figure);
+    });
+  return figures;
+};
+
+// Field, period and location are described from the later figure when there is one
+const figureChange = (
+  kind: FigureChange['kind'],
+  figure: ExtractedFigure,
+  before: ExtractedFigure | undefined,
+  after: ExtractedFigure | undefined,
+  settings: PeriodSettings
+): FigureChange => ({
+  kind,
+  field: figure.label,
+  periodLabel: comparisonPeriodLabel(figure.period, figure.category as StatementCategory, settings),
+  before: before?.value ?? null,
+  after: after?.value ?? null,
+  currency: figure.currency,
+  location: figure.location
+});
+
+const diffDocuments = (base: AnalysisSession, next: AnalysisSession): DocumentDiff[] =>
+  pairDocuments(base.analyses, next.analyses).map(([before, after]) => {
+    const beforeFigures = comparedFigures(before, base.settings.period);
+    const afterFigures = comparedFigures(after, next.settings.period);
+    const changes: FigureChange[] = [];
+
+    afterFigures.forEach((figure, key) => {
+      const previous = beforeFigures.get(key);
+      if (!previous) changes.push(figureChange('added', figure, undefined, figure, next.settings.period));
+      else if (previous.value !== figure.value || previous.currency !== figure.currency) {
+        changes.push(figureChange('changed', figure, previous, figure, next.settings.period));
+      }
+    });
+    beforeFigures.forEach((figure, key) => {
+      if (!afterFigures.has(key)) changes.push(figureChange('removed', figure, figure, undefined, base.settings.period));
+    });
+
+    return {
+      documentName: after?.fileName ?? before?.fileName ?? '',
+      previousName: after && before ? before.fileName : null,
+      status: !before ? 'added' : !after ? 'removed' : 'matched',
+      changes
+    };
+  });
+
+const comparisonKey = (comparison: ComparisonResult, settings: PeriodSettings) =>
+  `${comparison.field}|${periodKey(comparison.period, comparison.category, settings)}`;
+
+const isDiscrepancy = (comparison: ComparisonResult | undefined) =>
+  comparison !== undefined && !comparison.consistent && comparison.verdict !== 'restatement';
+
+// Restatements are counted from the comparisons, since sessions saved before they were tallied lack the count
+const tally = (session: AnalysisSession): ConsistencyTally => ({
+  consistentCount: session.summary.consistentCount,
+  discrepancyCount: session.summary.discrepancyCount,
+  restatedCount: session.comparisons.filter(c => !c.consistent && c.verdict === 'restatement').length,
+  totalComparisons: session.summary.totalComparisons
+});
+
+export const consistencyRate = ({ consistentCount, totalComparisons }: ConsistencyTally) =>
+  totalComparisons > 0 ? (consistentCount / totalComparisons) * 100 : 0;
+
+// The earlier session is always the base, whichever order the two were picked in
+export const diffSessions = (first: AnalysisSession, second: AnalysisSession): RunDiff => {
+  const [base, next] = first.createdAt <= second.createdAt ? [first, second] : [second, first];
+  const before = new Map(base.comparisons.map(c => [comparisonKey(c, base.settings.period), c]));
+  const after = new Map(next.comparisons.map(c => [comparisonKey(c, next.settings.period), c]));
+
+  return {
+    base,
+    next,
+    documents: diffDocuments(base, next),
+    // New discrepancies, whether the figure was consistent before or not compared at all
+    introduced: next.comparisons.filter(c => isDiscrepancy(c) && !isDiscrepancy(before.get(comparisonKey(c, next.settings.period)))),
+    // Earlier discrepancies the later run compares and finds consistent
+    resolved: base.comparisons.filter(c => {
+      const later = after.get(comparisonKey(c, base.settings.period));
+      return isDiscrepancy(c) && later !== undefined && later.consistent;
+    }),
+    // Earlier discrepancies the later run has no comparison for, e.g. because a document was dropped
+    noLongerCompared: base.comparisons.filter(c => isDiscrepancy(c) && !after.has(comparisonKey(c, base.settings.period))),
+    consistency: { before: tally(base), after: tally(next) }
+  };
+};
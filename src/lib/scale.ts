@@ -0,0 +1,69 @@
+export interface ScaleDeclaration {
+  index: number;
+  multiplier: number;
+  text: string;
+}
+
+const SCALE_WORDS: { [token: string]: number } = {
+  k: 1e3,
+  thousand: 1e3,
+  thousands: 1e3,
+  '000': 1e3,
+  '000s': 1e3,
+  m: 1e6,
+  mm: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  millions: 1e6,
+  bn: 1e9,
+  billion: 1e9,
+  billions: 1e9
+};
+
+// Suffix that may directly follow a number, e.g. "12.4m", "450k", "3 billion".
+export const INLINE_SCALE_PATTERN = '(?:\\s?(?<scaleAbbr>k|mm|mn|m|bn)|\\s+(?<scaleWord>thousand|million|billion))\\b';
+
+// Table or section headers that state the unit for the figures that follow them.
+const SCALE_DECLARATION_PATTERNS = [
+  /\bin\s+(?:[A-Z]{3}\s+|[$€£¥]\s*)?(thousands|millions|billions)\b/gi,
+  /\(\s*(?:[A-Z]{3}\s*|[$€£¥]\s*)?'?(thousands|millions|billions|000s?|mm|mn|m|bn)\s*\)/gi,
+  /[$€£¥]\s*'?(000s?|mm|mn|m|bn)\b(?![\d.,])/g
+];
+
+export const scaleMultiplier = (token: string | undefined): number => {
+  if (!token) return 1;
+  return SCALE_WORDS[token.toLowerCase().replace(/'/g, '')] ?? 1;
+};
+
+export const findScaleDeclarations = (text: string): ScaleDeclaration[] => {
+  const declarations: ScaleDeclaration[] = [];
+
+  SCALE_DECLARATION_PATTERNS.forEach(pattern => {
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      declarations.push({ index: match.index, multiplier: scaleMultiplier(match[1]), text: match[0].trim() });
+    }
+  });
+
+  return declarations.sort((a, b) => a.index - b.index);
+};
+
+// The most recent declaration before a figure governs it, the way a "(in thousands)" table
+// header applies to every row underneath until another header changes the unit.
+export const scaleAt = (declarations: ScaleDeclaration[], index: number): ScaleDeclaration | undefined => {
+  let current: ScaleDeclaration | undefined;
+  for (const declaration of declarations) {
+    if (declaration.index > index) break;
+    current = declaration;
+  }
+  return current;
+};
+
+export const applyScale = (value: number, multiplier: number) => Math.round(value * multiplier * 100) / 100;
+
+// Rounding unit implied by how a scaled figure was written: "$12.4m" is stated to the nearest 100,000.
+export const statedPrecision = (numberText: string, multiplier: number): number | undefined => {
+  if (multiplier === 1) return undefined;
+  const decimals = (numberText.split('.')[1] || '').length;
+  return Math.pow(10, -decimals) * multiplier;
+};
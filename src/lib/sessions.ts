@@ -0,0 +1,116 @@
+import type { AnalysisSession, AnalysisSettings, DocumentAnalysis, SessionFile } from '../types/financial';
+import { buildCrossCheckReport } from './comparison';
+
+const DB_NAME = 'document-cross-checker';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE)) {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// A full disk surfaces as an aborted transaction; say what the reviewer can do about it
+const storageError = (error: DOMException | null) =>
+  error?.name === 'QuotaExceededError'
+    ? new Error('Browser storage is full. Delete older sessions from the history to save new ones.')
+    : new Error(`Unable to access saved sessions: ${error?.message ?? 'unknown error'}`);
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = action(transaction.objectStore(STORE));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onabort = () => {
+      db.close();
+      reject(storageError(transaction.error ?? request.error));
+    };
+  });
+};
+
+export const hashFile = async (file: File): Promise<SessionFile> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  const sha256 = Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  return { name: file.name, size: file.size, sha256 };
+};
+
+// Comparisons and summary are stored alongside the figures so history and run diffs need no recomputation
+export const createSession = (
+  analyses: DocumentAnalysis[],
+  settings: AnalysisSettings,
+  files: SessionFile[],
+  dealName = ''
+): AnalysisSession => {
+  const { comparisons, summary } = buildCrossCheckReport(analyses, settings);
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    dealName: dealName.trim(),
+    tags: [],
+    createdAt: now,
+    updatedAt: now,
+    files: files.length > 0 ? files : analyses.map(a => ({ name: a.fileName, size: 0, sha256: null })),
+    settings,
+    analyses,
+    comparisons,
+    summary
+  };
+};
+
+let persistenceRequested = false;
+
+export const saveSession = async (session: AnalysisSession): Promise<AnalysisSession> => {
+  // Ask once for storage the browser will not evict under pressure; refusal is not an error
+  if (!persistenceRequested && navigator.storage?.persist) {
+    persistenceRequested = true;
+    await navigator.storage.persist().catch(() => false);
+  }
+  await runRequest('readwrite', store => store.put(session));
+  return session;
+};
+
+export const getSession = (id: string) =>
+  runRequest<AnalysisSession | undefined>('readonly', store => store.get(id));
+
+// New settings change the comparisons, so those are rebuilt with them
+export const updateSession = async (
+  id: string,
+  changes: Partial<Pick<AnalysisSession, 'dealName' | 'tags' | 'settings'>>
+): Promise<AnalysisSession> => {
+  const current = await getSession(id);
+  if (!current) throw new Error('This session no longer exists');
+  const updated = { ...current, ...changes, updatedAt: new Date().toISOString() };
+  if (changes.settings) {
+    const { comparisons, summary } = buildCrossCheckReport(updated.analyses, changes.settings);
+    updated.comparisons = comparisons;
+    updated.summary = summary;
+  }
+  return saveSession(updated);
+};
+
+export const listSessions = async (): Promise<AnalysisSession[]> => {
+  const sessions = await runRequest<AnalysisSession[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteSession = (id: string) =>
+  runRequest('readwrite', store => store.delete(id)).then(() => undefined);
+
+export const storageUsage = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+};
+
+export const sessionTitle = (session: AnalysisSession) =>
+  session.dealName || session.files.map(file => file.name).join(', ');
@@ -0,0 +1,175 @@
+import { parse as parseYaml } from 'yaml';
+import type { ExpectedSign, FieldTaxonomy, FieldUnit, StatementCategory, TaxonomyField } from '../types/financial';
+
+export const STATEMENT_CATEGORIES: StatementCategory[] = ['Income Statement', 'Balance Sheet', 'Cash Flow Statement'];
+
+export const EXPECTED_SIGN_LABELS: Record<ExpectedSign, string> = {
+  positive: 'Positive',
+  negative: 'Negative',
+  any: 'Either'
+};
+
+export const TAXONOMY_SCHEMA_VERSION = 1;
+
+export const FIELD_UNIT_LABELS: Record<FieldUnit, string> = {
+  currency: 'Amount',
+  count: 'Count'
+};
+
+// Expense lines are expected positive so "(120)" in one document still matches "120" in another
+export const DEFAULT_TAXONOMY: FieldTaxonomy = {
+  fields: [
+    // Income Statement
+    { field: 'Revenue', category: 'Income Statement', synonyms: ['revenue', 'sales', 'total revenue', 'turnover'], exclusions: ['deferred revenue', 'cost of revenue', 'cost of sales'], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Cost of Sales', category: 'Income Statement', synonyms: ['cost of sales', 'cost of revenue', 'cost of goods sold', 'cogs'], exclusions: [], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Gross Profit', category: 'Income Statement', synonyms: ['gross profit'], exclusions: [], expectedSign: 'any', unit: 'currency' },
+    { field: 'Operating Expenses', category: 'Income Statement', synonyms: ['operating expenses', 'total operating expenses', 'opex'], exclusions: [], expectedSign: 'positive', unit: 'currency' },
+    { field: 'EBITDA', category: 'Income Statement', synonyms: ['ebitda', 'earnings before interest, tax, depreciation and amortisation'], exclusions: [], expectedSign: 'any', unit: 'currency' },
+    { field: 'Depreciation & Amortisation', category: 'Income Statement', synonyms: ['depreciation and amortisation', 'depreciation and amortization', 'depreciation & amortisation', 'depreciation & amortization', 'd&a'], exclusions: ['earnings before', 'accumulated depreciation'], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Operating Income', category: 'Income Statement', synonyms: ['operating income', 'operating profit', 'income from operations', 'ebit', 'earnings before interest and tax'], exclusions: ['other operating income', 'non-operating income'], expectedSign: 'any', unit: 'currency' },
+    { field: 'Interest Expense', category: 'Income Statement', synonyms: ['interest expense', 'net interest expense', 'finance costs'], exclusions: ['earnings before interest'], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Income Tax', category: 'Income Statement', synonyms: ['income tax expense', 'income tax', 'tax expense', 'provision for income taxes', 'taxation'], exclusions: ['before income tax', 'before tax', 'after tax', 'deferred tax', 'tax payable', 'tax rate'], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Net Income', category: 'Income Statement', synonyms: ['net income', 'net profit', 'profit after tax'], exclusions: [], expectedSign: 'any', unit: 'currency' },
+
+    // Balance Sheet
+    { field: 'Current Assets', category: 'Balance Sheet', synonyms: ['total current assets', 'current assets'], exclusions: ['non-current assets', 'non current assets'], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Non-current Assets', category: 'Balance Sheet', synonyms: ['total non-current assets', 'non-current assets', 'non current assets', 'noncurrent assets'], exclusions: [], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Cash and Equivalents', category: 'Balance Sheet', synonyms: ['cash and cash equivalents', 'cash and equivalents', 'cash & cash equivalents'], exclusions: ['change in cash', 'increase in cash', 'decrease in cash'], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Total Assets', category: 'Balance Sheet', synonyms: ['total assets', 'assets'], exclusions: ['current assets', 'net assets'], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Current Liabilities', category: 'Balance Sheet', synonyms: ['total current liabilities', 'current liabilities'], exclusions: ['non-current liabilities', 'non current liabilities'], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Non-current Liabilities', category: 'Balance Sheet', synonyms: ['total non-current liabilities', 'non-current liabilities', 'non current liabilities', 'noncurrent liabilities'], exclusions: [], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Total Liabilities', category: 'Balance Sheet', synonyms: ['total liabilities', 'liabilities'], exclusions: ['current liabilities', 'liabilities and equity'], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Total Debt', category: 'Balance Sheet', synonyms: ['total debt', 'gross debt', 'total borrowings', 'borrowings'], exclusions: ['net debt', 'current borrowings'], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Net Debt', category: 'Balance Sheet', synonyms: ['net debt'], exclusions: [], expectedSign: 'any', unit: 'currency' },
+    { field: 'Equity', category: 'Balance Sheet', synonyms: ['equity', "shareholders' equity", "stockholders' equity", 'total equity'], exclusions: ['liabilities and equity', 'return on equity'], expectedSign: 'any', unit: 'currency' },
+    // Point-in-time counts are dated like balance sheet items
+    { field: 'Shares Outstanding', category: 'Balance Sheet', synonyms: ['shares outstanding', 'ordinary shares outstanding', 'number of shares'], exclusions: [], expectedSign: 'positive', unit: 'count' },
+    { field: 'Headcount', category: 'Balance Sheet', synonyms: ['headcount', 'number of employees', 'employees', 'full-time employees', 'fte'], exclusions: [], expectedSign: 'positive', unit: 'count' },
+
+    // Cash Flow Statement
+    { field: 'Operating Cash Flow', category: 'Cash Flow Statement', synonyms: ['operating cash flow', 'cash from operations', 'net cash from operating activities'], exclusions: [], expectedSign: 'any', unit: 'currency' },
+    { field: 'Capital Expenditure', category: 'Cash Flow Statement', synonyms: ['capital expenditure', 'capital expenditures', 'capex', 'purchase of property, plant and equipment', 'purchases of property and equipment'], exclusions: [], expectedSign: 'positive', unit: 'currency' },
+    { field: 'Free Cash Flow', category: 'Cash Flow Statement', synonyms: ['free cash flow', 'fcf'], exclusions: [], expectedSign: 'any', unit: 'currency' },
+    { field: 'Investing Cash Flow', category: 'Cash Flow Statement', synonyms: ['investing cash flow', 'cash from investing', 'net cash used in investing activities'], exclusions: [], expectedSign: 'any', unit: 'currency' },
+    { field: 'Financing Cash Flow', category: 'Cash Flow Statement', synonyms: ['financing cash flow', 'cash from financing', 'net cash used in financing activities'], exclusions: [], expectedSign: 'any', unit: 'currency' },
+    { field: 'Net Change in Cash', category: 'Cash Flow Statement', synonyms: ['net change in cash', 'net cash flow', 'net increase in cash', 'net decrease in cash'], exclusions: [], expectedSign: 'any', unit: 'currency' }
+  ]
+};
+
+// Synonyms are plain phrases: any run of spaces matches any whitespace and apostrophes are
+// optional, so "shareholders' equity" also finds "Shareholders equity"
+export const phrasePattern = (phrase: string) =>
+  phrase
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/['’]/g, "['’]?")
+    .replace(/\s+/g, '\\s+');
+
+// Blank phrases are left over while a synonym list is being edited and would match everything
+export const phrasesOf = (phrases: string[]) => phrases.filter(phrase => phrase.trim());
+
+// Longest synonym first, so "total current assets" is tried before "current assets"
+export const synonymAlternation = (field: TaxonomyField) =>
+  [...phrasesOf(field.synonyms)].sort((a, b) => b.trim().length - a.trim().length).map(phrasePattern).join('|');
+
+// Words that narrow a generic line item into a different one: "current assets", "deferred tax
+// liabilities", "liabilities and equity". A synonym preceded by one of them is not the field.
+export const QUALIFYING_WORDS = [
+  'accrued', 'accumulated', 'and', 'contingent', 'current', 'deferred', 'derivative', 'financial', 'fixed',
+  'intangible', 'lease', 'other', 'pension', 'restricted', 'tangible', 'tax', 'unearned'
+];
+
+// Matches a synonym as a whole word that no qualifying word precedes; the matched text is the "label" group
+export const fieldLabelPattern = (field: TaxonomyField) =>
+  `(?<![\\w-])(?<!\\b(?:${QUALIFYING_WORDS.join('|')})[\\s-]+)(?<label>${synonymAlternation(field)})`;
+
+export const isExcluded = (field: TaxonomyField, text: string) =>
+  phrasesOf(field.exclusions).some(phrase => new RegExp(phrasePattern(phrase), 'i').test(text));
+
+// Field whose label a table row heading spells out, e.g. "Total assets" or "Revenue:"
+export const matchFieldLabel = (text: string, taxonomy: FieldTaxonomy = DEFAULT_TAXONOMY) => {
+  const normalised = text.trim().replace(/\s+/g, ' ');
+  return taxonomy.fields.find(field =>
+    field.field.trim() !== '' &&
+    phrasesOf(field.synonyms).length > 0 &&
+    new RegExp(`^(?:${synonymAlternation(field)})\\s*:?$`, 'i').test(normalised) && !isExcluded(field, normalised)
+  );
+};
+
+// Documents disagree on whether outflows carry a minus sign; fields with an expected sign are compared on it
+export const applyExpectedSign = (value: number, expectedSign: ExpectedSign) => {
+  if (expectedSign === 'positive') return Math.abs(value);
+  if (expectedSign === 'negative') return -Math.abs(value);
+  return value;
+};
+
+export const fieldOrder = (taxonomy: FieldTaxonomy, field: string) => {
+  const index = taxonomy.fields.findIndex(f => f.field === field);
+  return index === -1 ? taxonomy.fields.length : index;
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Shared by taxonomy files and the settings inside saved results
+export const validateTaxonomy = (data: unknown): FieldTaxonomy => {
+  const fields = (data as { fields?: unknown } | null)?.fields;
+  if (!Array.isArray(fields) || fields.length === 0) {
+    throw new Error('Expected a "fields" list with at least one field');
+  }
+
+  const seen = new Set<string>();
+  return {
+    fields: fields.map((raw, index) => {
+      const entry = (raw ?? {}) as Record<string, unknown>;
+      const name = typeof entry.field === 'string' ? entry.field.trim() : '';
+      const where = `Field ${index + 1}${name ? ` ("${name}")` : ''}`;
+
+      if (!name) throw new Error(`${where}: "field" must be a non-empty name`);
+      if (seen.has(name.toLowerCase())) throw new Error(`${where}: duplicate field name`);
+      seen.add(name.toLowerCase());
+
+      if (!STATEMENT_CATEGORIES.includes(entry.category as StatementCategory)) {
+        throw new Error(`${where}: "category" must be one of ${STATEMENT_CATEGORIES.join(', ')}`);
+      }
+      if (!isStringArray(entry.synonyms) || entry.synonyms.filter(s => s.trim()).length === 0) {
+        throw new Error(`${where}: "synonyms" must list at least one phrase`);
+      }
+      if (entry.exclusions !== undefined && !isStringArray(entry.exclusions)) {
+        throw new Error(`${where}: "exclusions" must be a list of phrases`);
+      }
+      const expectedSign = entry.expectedSign ?? 'any';
+      if (!Object.keys(EXPECTED_SIGN_LABELS).includes(String(expectedSign))) {
+        throw new Error(`${where}: "expectedSign" must be positive, negative or any`);
+      }
+      const unit = entry.unit ?? 'currency';
+      if (!Object.keys(FIELD_UNIT_LABELS).includes(String(unit))) {
+        throw new Error(`${where}: "unit" must be currency or count`);
+      }
+
+      return {
+        field: name,
+        category: entry.category as StatementCategory,
+        synonyms: entry.synonyms.map(s => s.trim()).filter(Boolean),
+        exclusions: ((entry.exclusions as string[] | undefined) ?? []).map(s => s.trim()).filter(Boolean),
+        expectedSign: expectedSign as ExpectedSign,
+        unit: unit as FieldUnit
+      };
+    })
+  };
+};
+
+// Accepts the JSON or YAML shape written by serializeTaxonomy; errors name the offending field
+export const parseTaxonomy = (content: string, fileName: string): FieldTaxonomy => {
+  const isYaml = /\.ya?ml$/i.test(fileName);
+  let data: unknown;
+  try {
+    data = isYaml ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Unable to read ${isYaml ? 'YAML' : 'JSON'}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return validateTaxonomy(data);
+};
+
+export const serializeTaxonomy = (taxonomy: FieldTaxonomy) =>
+  JSON.stringify({ version: TAXONOMY_SCHEMA_VERSION, ...taxonomy }, null, 2);
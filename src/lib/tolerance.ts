@@ -0,0 +1,70 @@
+import type { ConsistencyVerdict, ToleranceSettings } from '../types/financial';
+
+export const DEFAULT_TOLERANCE: ToleranceSettings = {
+  absolute: 0,
+  relativePercent: 0.5,
+  roundingAware: true
+};
+
+export const VERDICT_LABELS: Record<ConsistencyVerdict, string> = {
+  exact: 'Exact match',
+  within_tolerance: 'Within tolerance',
+  rounding_difference: 'Rounding difference',
+  material_discrepancy: 'Material discrepancy',
+  currency_mismatch: 'Currency mismatch',
+  restatement: 'Restated'
+};
+
+export const isConsistentVerdict = (verdict: ConsistencyVerdict) =>
+  verdict !== 'material_discrepancy' && verdict !== 'currency_mismatch' && verdict !== 'restatement';
+
+const VERDICT_SEVERITY: ConsistencyVerdict[] = [
+  'exact',
+  'rounding_difference',
+  'within_tolerance',
+  'restatement',
+  'material_discrepancy',
+  'currency_mismatch'
+];
+
+export const worstVerdict = (verdicts: ConsistencyVerdict[]): ConsistencyVerdict =>
+  verdicts.reduce<ConsistencyVerdict>(
+    (worst, verdict) => (VERDICT_SEVERITY.indexOf(verdict) > VERDICT_SEVERITY.indexOf(worst) ? verdict : worst),
+    'exact'
+  );
+
+// Unit a figure was shown to when no scale was stated: the decimals written, otherwise whole units.
+// Trailing zeros are not read as rounding, because a round amount may simply be exact: 500,000 against
+// 549,000 is a material discrepancy, while $12.4m against 12,381,000 is a rounding difference only
+// because "12.4m" states its precision (100,000) through the scale.
+export const inferPrecision = (value: number): number => {
+  if (Number.isInteger(value)) return 1;
+  const decimals = (Math.abs(value).toString().split('.')[1] || '').length;
+  return Math.pow(10, -decimals);
+};
+
+const roundTo = (value: number, precision: number) => Math.round(value / precision) * precision;
+
+export interface ToleranceInput {
+  value: number;
+  precision?: number;
+}
+
+export const assessConsistency = (inputs: ToleranceInput[], tolerance: ToleranceSettings): ConsistencyVerdict => {
+  const values = inputs.map(input => input.value);
+  if (new Set(values).size <= 1) return 'exact';
+
+  if (tolerance.roundingAware) {
+    const coarsest = Math.max(...inputs.map(input => input.precision ?? inferPrecision(input.value)));
+    if (new Set(values.map(value => roundTo(value, coarsest))).size === 1) {
+      return 'rounding_difference';
+    }
+  }
+
+  const spread = Math.max(...values) - Math.min(...values);
+  const base = Math.max(...values.map(Math.abs));
+  const withinAbsolute = spread <= tolerance.absolute;
+  const withinRelative = base > 0 && (spread / base) * 100 <= tolerance.relativePercent;
+
+  return withinAbsolute || withinRelative ? 'within_tolerance' : 'material_discrepancy';
+};
@@ -1,11 +1,163 @@
+export type StatementCategory = 'Income Statement' | 'Balance Sheet' | 'Cash Flow Statement';
+
+export type ConsistencyVerdict =
+  | 'exact'
+  | 'within_tolerance'
+  | 'rounding_difference'
+  | 'material_discrepancy'
+  | 'currency_mismatch'
+  | 'restatement';
+
+export interface ToleranceSettings {
+  absolute: number;
+  relativePercent: number;
+  roundingAware: boolean;
+}
+
+export interface FxRate {
+  date: string;
+  from: string;
+  to: string;
+  rate: number;
+}
+
+export interface CurrencySettings {
+  reportingCurrency: string | null;
+  fxRates: FxRate[];
+}
+
+export interface PeriodSettings {
+  fiscalYearEndMonth: number;
+}
+
+export type ExpectedSign = 'positive' | 'negative' | 'any';
+
+export type FieldUnit = 'currency' | 'count';
+
+export interface TaxonomyField {
+  field: string;
+  category: StatementCategory;
+  synonyms: string[];
+  exclusions: string[];
+  expectedSign: ExpectedSign;
+  unit: FieldUnit;
+}
+
+export interface FieldTaxonomy {
+  fields: TaxonomyField[];
+}
+
+// A user-written check such as "{Net Debt @cim} = {Total Debt @model} - {Cash and Equivalents @model}"
+export interface CustomRule {
+  id: string;
+  name: string;
+  expression: string;
+}
+
+export type MaterialityBasis = 'amount' | 'revenue' | 'total_assets';
+
+export interface MaterialitySettings {
+  basis: MaterialityBasis;
+  // Overall materiality when the basis is a fixed amount
+  amount: number;
+  // Share of revenue or total assets when the basis is one of them
+  percent: number;
+  // Variances below this share of materiality are clearly trivial
+  trivialPercent: number;
+  fieldThresholds: { [field: string]: number };
+}
+
+export type Severity = 'trivial' | 'moderate' | 'material';
+
+export interface Variance {
+  absolute: number;
+  percent: number | null;
+}
+
+export interface AnalysisSettings {
+  tolerance: ToleranceSettings;
+  currency: CurrencySettings;
+  period: PeriodSettings;
+  taxonomy: FieldTaxonomy;
+  rules: CustomRule[];
+  materiality: MaterialitySettings;
+}
+
+export type PeriodType = 'fiscal_year' | 'quarter' | 'half' | 'month' | 'ytd' | 'ltm' | 'point_in_time';
+
+export interface Period {
+  type: PeriodType;
+  year: number;
+  quarter?: number;
+  half?: number;
+  month?: number;
+  day?: number;
+  yearEndMonth?: number;
+}
+
+export type NumberLocale = 'en-US' | 'en-IN' | 'de-DE' | 'fr-FR';
+
+// A source of truth is the reference every other document is checked against; without one all documents are peers
+export type DocumentRole = 'source_of_truth' | 'derived' | 'draft';
+
+export interface DocumentOptions {
+  numberLocale?: NumberLocale;
+  role?: DocumentRole;
+  // ISO date the document was issued; without one its latest reported period end is used
+  documentDate?: string;
+}
+
+export type ScaleSource = 'inline' | 'section' | 'format' | 'none';
+
+export type CurrencySource = 'inline' | 'section' | 'assumed';
+
+// PDF points from the top-left corner of the page
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type DocumentPart = 'body' | 'header' | 'footer' | 'footnotes';
+
+export type SourceAnchor =
+  | { kind: 'cell'; sheet: string; cell: string; row: number; column: number }
+  | { kind: 'paragraph'; part: DocumentPart; paragraph: number; heading?: string }
+  | { kind: 'table-cell'; table: number; row: number; column: number; heading?: string }
+  | { kind: 'pdf'; page: number; box: BoundingBox; table?: number };
+
+// Where a figure's period came from: a table header above it, a mention nearby in the text, or the document's first period
+export type PeriodSource = 'header' | 'nearby' | 'document';
+
 export interface ExtractedFigure {
   category: string;
-  year: string;
+  period: Period;
+  periodEvidence?: string;
+  periodSource?: PeriodSource;
+  // Characters between the figure and the nearby period mention
+  periodDistance?: number;
   value: number;
   label: string;
+  // Label text as the document wrote it, e.g. "Total current assets"
+  matchedLabel?: string;
   documentName: string;
   location: string;
+  anchor?: SourceAnchor;
+  // Rank 1 is the reading a document is compared on; higher ranks are other readings of the same field and period
+  rank?: number;
+  // 0 to 1, computed by figureConfidence
   confidence: number;
+  // Share of the source line that reads as clean text; values read from cells are exact
+  textQuality?: number;
+  rawText: string;
+  multiplier: number;
+  scaleSource: ScaleSource;
+  scaleEvidence?: string;
+  precision?: number;
+  currency: string;
+  currencySource: CurrencySource;
+  currencyEvidence?: string;
 }
 
 export interface DocumentAnalysis {
@@ -13,24 +165,165 @@ export interface DocumentAnalysis {
   extractedFigures: ExtractedFigure[];
   extractionStatus: 'success' | 'partial' | 'failed';
   errorMessage?: string;
+  numberLocale?: NumberLocale;
+  numberLocaleSource?: 'detected' | 'manual';
+  documentDate?: string;
+  role?: DocumentRole;
+}
+
+export interface FxConversion {
+  from: string;
+  to: string;
+  rate: number;
+  rateDate: string;
+  originalValue: number;
 }
 
 export interface ComparisonResult {
-  year: string;
+  period: Period;
+  periodLabel: string;
+  periodEnd: string;
   field: string;
   values: { [documentName: string]: number | null };
+  sources: { [documentName: string]: ExtractedFigure | null };
+  currency: string | null;
+  conversions: { [documentName: string]: FxConversion | null };
   consistent: boolean;
-  category: 'Income Statement' | 'Balance Sheet' | 'Cash Flow Statement';
+  verdict: ConsistencyVerdict;
+  category: StatementCategory;
+  // Lower-ranked readings that disagree with the value a document is compared on, by document
+  alternatives: { [documentName: string]: ExtractedFigure[] };
+  // Date of each document's vintage, stated or inferred from its latest period
+  documentDates: { [documentName: string]: string | null };
+  // Source of truth the other documents were checked against, when it states this figure
+  referenceDocument: string | null;
+  // Each other document's verdict against the reference
+  documentVerdicts: { [documentName: string]: ConsistencyVerdict };
+  variance: Variance | null;
+  materiality: number | null;
+  severity: Severity | null;
+}
+
+// An accounting identity evaluated inside one document, e.g. Total Assets = Total Liabilities + Equity
+export interface IdentityCheckResult {
+  documentName: string;
+  identity: string;
+  expression: string;
+  category: StatementCategory;
+  period: Period;
+  periodLabel: string;
+  left: number;
+  right: number;
+  gap: number;
+  currency: string;
+  verdict: ConsistencyVerdict;
+  passed: boolean;
+  operands: { field: string; value: number; location: string }[];
+}
+
+export interface CustomRuleResult {
+  ruleId: string;
+  name: string;
+  expression: string;
+  // Document that references without an @document were read from
+  documentName?: string;
+  periodLabel: string;
+  left: number;
+  right: number;
+  difference: number;
+  passed: boolean;
+  operands: { reference: string; field: string; documentName: string; value: number; location: string }[];
 }
 
 export interface CrossCheckReport {
   documentAnalyses: DocumentAnalysis[];
   comparisons: ComparisonResult[];
+  internalChecks: IdentityCheckResult[];
+  ruleResults: CustomRuleResult[];
   summary: {
     totalComparisons: number;
     consistentCount: number;
     discrepancyCount: number;
+    // Differences explained by a later document restating the figure; with the two counts above, adds up to the total
+    restatedCount: number;
+    severityCounts: Record<Severity, number>;
     keyDiscrepancies: string[];
+    ambiguities: string[];
+    restatements: string[];
+    internalBreaks: string[];
     consistentSections: string[];
   };
-}
\ No newline at end of file
+}
+
+// Saved analysis results; analyses and settings are enough to rebuild the report, the rest is kept for archives
+export interface AnalysisResultsFile {
+  schema: 'document-cross-checker/analysis-results';
+  version: number;
+  // Version of the app that wrote the file
+  appVersion: string;
+  exportedAt: string;
+  settings: AnalysisSettings;
+  analyses: DocumentAnalysis[];
+  comparisons: ComparisonResult[];
+  summary: CrossCheckReport['summary'];
+}
+
+export interface SessionFile {
+  name: string;
+  size: number;
+  // SHA-256 of the file contents; null for sessions reopened from a results file
+  sha256: string | null;
+}
+
+// One saved run, kept in the browser so it survives a refresh or Start Over
+export interface AnalysisSession {
+  id: string;
+  dealName: string;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+  files: SessionFile[];
+  settings: AnalysisSettings;
+  analyses: DocumentAnalysis[];
+  comparisons: ComparisonResult[];
+  summary: CrossCheckReport['summary'];
+}
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface FigureChange {
+  kind: ChangeKind;
+  field: string;
+  periodLabel: string;
+  before: number | null;
+  after: number | null;
+  currency: string;
+  location: string;
+}
+
+export interface DocumentDiff {
+  // The document's name in the later run, or in the earlier one when it was removed
+  documentName: string;
+  previousName: string | null;
+  status: 'matched' | ChangeKind;
+  changes: FigureChange[];
+}
+
+export interface ConsistencyTally {
+  consistentCount: number;
+  discrepancyCount: number;
+  restatedCount: number;
+  totalComparisons: number;
+}
+
+// What changed from an earlier session to a later one
+export interface RunDiff {
+  base: AnalysisSession;
+  next: AnalysisSession;
+  documents: DocumentDiff[];
+  introduced: ComparisonResult[];
+  resolved: ComparisonResult[];
+  // Earlier discrepancies the later run does not compare, so they are neither resolved nor still open
+  noLongerCompared: ComparisonResult[];
+  consistency: { before: ConsistencyTally; after: ConsistencyTally };
+}